@@ -0,0 +1,515 @@
+// CalDAV calendar provider (Nextcloud, Radicale, Fastmail, iCloud, ...)
+
+import { randomUUID } from 'node:crypto';
+import { BatchOperation, BatchResult, BusyInterval, CalendarEvent, CalendarProvider, FreeBusyResult } from './types.js';
+import {
+  IcsComponent,
+  buildVTimezone,
+  escapeText,
+  foldLine,
+  formatLocal,
+  formatTrigger,
+  formatUtc,
+  parseIcs,
+  parseTrigger,
+  unescapeText,
+} from './ics.js';
+import { fetchWithRetry } from './http.js';
+import { BRIDGE_MARKER_KEY } from './sync.js';
+import { isValidTimeZone, zonedTimeToUtc } from './timezone.js';
+
+const PRODID = '-//canvas-calendar-bridge//CalDAV Provider//EN';
+
+// Extended properties are stored as X-CANVAS-BRIDGE-PROP;NAME=<key>:<value>, because
+// iCalendar property names are case-insensitive and servers may rewrite their case
+const EXTENDED_PROPERTY = 'X-CANVAS-BRIDGE-PROP';
+
+// Google Calendar colorId <-> RFC 7986 COLOR (CSS3 color names)
+const GOOGLE_COLORS: { [colorId: string]: string } = {
+  '1': 'lavender',
+  '2': 'darkseagreen',
+  '3': 'purple',
+  '4': 'lightcoral',
+  '5': 'gold',
+  '6': 'orange',
+  '7': 'deepskyblue',
+  '8': 'gray',
+  '9': 'royalblue',
+  '10': 'green',
+  '11': 'tomato',
+};
+
+export interface CalDavClientOptions {
+  // Calendar home set, e.g. http://localhost:5232/alice/ (Radicale)
+  // or https://cloud.example.com/remote.php/dav/calendars/alice/ (Nextcloud)
+  homeUrl: string;
+  username: string;
+  password: string;
+  // Calendar used when a method isn't given one: a collection name under homeUrl, a path or a full URL
+  defaultCalendar?: string;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Inner XML of every element with the given local name, whatever namespace prefix the server uses
+function extractElements(xml: string, localName: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${localName}\\b[^>]*?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>)`, 'g');
+  const results: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    results.push(match[1] || '');
+  }
+  return results;
+}
+
+function extractText(xml: string, localName: string): string | undefined {
+  const [element] = extractElements(xml, localName);
+  return element === undefined ? undefined : decodeXmlEntities(element.trim());
+}
+
+// "20251107T235959Z" / "20251107T235959" -> "2025-11-07T23:59:59[Z]"
+function icsDateTimeToIso(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return value;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${utc}`;
+}
+
+function getProperty(component: IcsComponent, name: string) {
+  return component.properties.find(property => property.name === name);
+}
+
+export class CalDavClient implements CalendarProvider {
+  readonly displayName = 'CalDAV';
+  private homeUrl: string;
+  private authHeader: string;
+  private defaultCalendarId: string;
+
+  constructor(options: CalDavClientOptions) {
+    this.homeUrl = options.homeUrl.endsWith('/') ? options.homeUrl : `${options.homeUrl}/`;
+    this.authHeader = `Basic ${Buffer.from(`${options.username}:${options.password}`).toString('base64')}`;
+    this.defaultCalendarId = options.defaultCalendar || 'canvas';
+  }
+
+  getDefaultCalendarId(): string {
+    return this.defaultCalendarId;
+  }
+
+  // Collection URL for a calendar ID (name under the home set, absolute path, or full URL)
+  private calendarUrl(calendarId: string): string {
+    const withSlash = calendarId.endsWith('/') ? calendarId : `${calendarId}/`;
+    return new URL(withSlash, this.homeUrl).toString();
+  }
+
+  // Event IDs are the resource names inside the collection (e.g. "<uid>.ics")
+  private eventUrl(calendarId: string, eventId: string): string {
+    return new URL(encodeURIComponent(eventId), this.calendarUrl(calendarId)).toString();
+  }
+
+  // `maxRetries: 0` for requests that must not be sent twice (a lost response may hide a write that happened)
+  private async request(
+    method: string,
+    url: string,
+    options: { body?: string; headers?: { [key: string]: string }; maxRetries?: number } = {}
+  ) {
+    const response = await fetchWithRetry(url, () => ({
+      method,
+      headers: {
+        'Authorization': this.authHeader,
+        ...(options.body !== undefined ? { 'Content-Type': 'application/xml; charset=utf-8' } : {}),
+        ...options.headers,
+      },
+      body: options.body,
+    }), { label: 'CalDAV', maxRetries: options.maxRetries, timeoutMs: 30000 });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`CalDAV error: ${method} ${url} returned ${response.status} - ${errorText}`);
+    }
+
+    return response;
+  }
+
+  // Run a calendar-query REPORT and return the events with their resource names and ETags.
+  // With `expand` the server returns each occurrence of a recurring event inside the range as its
+  // own VEVENT (RFC 4791 section 9.6.5), like Google's singleEvents; that needs both bounds.
+  private async queryEvents(calendarId: string, timeMin?: string, timeMax?: string, expand = false): Promise<any[]> {
+    const timeRange = timeMin || timeMax
+      ? `<C:time-range${timeMin ? ` start="${formatUtc(new Date(timeMin))}"` : ''}${timeMax ? ` end="${formatUtc(new Date(timeMax))}"` : ''}/>`
+      : '';
+    const calendarData = expand && timeMin && timeMax
+      ? `<C:calendar-data><C:expand start="${formatUtc(new Date(timeMin))}" end="${formatUtc(new Date(timeMax))}"/></C:calendar-data>`
+      : '<C:calendar-data/>';
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop><D:getetag/>${calendarData}</D:prop>
+  <C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT">${timeRange}</C:comp-filter></C:comp-filter></C:filter>
+</C:calendar-query>`;
+
+    const response = await this.request('REPORT', this.calendarUrl(calendarId), { body, headers: { 'Depth': '1' } });
+    const xml = await response.text();
+
+    const events: any[] = [];
+    for (const responseXml of extractElements(xml, 'response')) {
+      const href = extractText(responseXml, 'href');
+      const calendarData = extractText(responseXml, 'calendar-data');
+      if (!href || !calendarData) continue;
+
+      const eventId = decodeURIComponent(href.replace(/\/$/, '').split('/').pop() || '');
+      const etag = extractText(responseXml, 'getetag');
+      if (expand) {
+        // Occurrences share the resource, so they keep its event ID
+        const calendar = parseIcs(calendarData).find(component => component.type === 'VCALENDAR');
+        for (const vevent of calendar?.components.filter(component => component.type === 'VEVENT') || []) {
+          events.push(this.fromVEvent(vevent, eventId, etag));
+        }
+        continue;
+      }
+      const event = this.fromIcs(calendarData, eventId, etag);
+      if (event) events.push(event);
+    }
+
+    return events;
+  }
+
+  // First VEVENT of a calendar object -> Google-style event resource
+  private fromIcs(ics: string, eventId: string, etag?: string): any | null {
+    const calendar = parseIcs(ics).find(component => component.type === 'VCALENDAR');
+    const vevent = calendar?.components.find(component => component.type === 'VEVENT');
+    return vevent ? this.fromVEvent(vevent, eventId, etag) : null;
+  }
+
+  // VEVENT -> Google-style event resource
+  private fromVEvent(vevent: IcsComponent, eventId: string, etag?: string): any {
+    const parseTime = (name: string) => {
+      const property = getProperty(vevent, name);
+      if (!property) return undefined;
+
+      if (property.params['VALUE'] === 'DATE' || /^\d{8}$/.test(property.value)) {
+        const value = property.value;
+        return { date: `${value.substring(0, 4)}-${value.substring(4, 6)}-${value.substring(6, 8)}` };
+      }
+
+      const iso = icsDateTimeToIso(property.value);
+      const tzid = property.params['TZID'];
+      if (iso.endsWith('Z')) {
+        return { dateTime: new Date(iso).toISOString(), timeZone: 'UTC' };
+      }
+      if (isValidTimeZone(tzid)) {
+        return { dateTime: zonedTimeToUtc(iso, tzid).toISOString(), timeZone: tzid };
+      }
+      // Floating time: interpret in the server process's local zone
+      return { dateTime: new Date(iso).toISOString() };
+    };
+
+    const privateProps: { [key: string]: string } = {};
+    for (const property of vevent.properties) {
+      if (property.name === EXTENDED_PROPERTY && property.params['NAME']) {
+        privateProps[property.params['NAME']] = unescapeText(property.value);
+      }
+    }
+
+    const overrides = vevent.components
+      .filter(component => component.type === 'VALARM')
+      .map(alarm => parseTrigger(getProperty(alarm, 'TRIGGER')?.value || ''))
+      .filter((minutes): minutes is number => minutes !== null)
+      .map(minutes => ({ method: 'popup', minutes }));
+
+    const color = getProperty(vevent, 'COLOR')?.value;
+    const colorId = Object.keys(GOOGLE_COLORS).find(id => GOOGLE_COLORS[id] === color);
+    const start = parseTime('DTSTART');
+
+    return {
+      id: eventId,
+      etag,
+      iCalUID: getProperty(vevent, 'UID')?.value,
+      summary: unescapeText(getProperty(vevent, 'SUMMARY')?.value || ''),
+      description: unescapeText(getProperty(vevent, 'DESCRIPTION')?.value || ''),
+      location: getProperty(vevent, 'LOCATION') ? unescapeText(getProperty(vevent, 'LOCATION')!.value) : undefined,
+      transparency: getProperty(vevent, 'TRANSP')?.value.toLowerCase() === 'transparent' ? 'transparent' : undefined,
+      start,
+      end: parseTime('DTEND') || start,
+      colorId,
+      reminders: { useDefault: overrides.length === 0, overrides },
+      extendedProperties: Object.keys(privateProps).length > 0 ? { private: privateProps } : undefined,
+      htmlLink: getProperty(vevent, 'URL')?.value,
+    };
+  }
+
+  // Google-style event resource -> VCALENDAR with one VEVENT (and VTIMEZONEs for any TZIDs used)
+  private toIcs(event: any, uid: string): string {
+    const timeZones = new Set<string>();
+    const referenceDates: Date[] = [];
+
+    const timeLine = (name: string, time: any): string | null => {
+      if (!time) return null;
+      if (time.date) {
+        return `${name};VALUE=DATE:${time.date.replace(/-/g, '')}`;
+      }
+      const dateTime: string = time.dateTime;
+      if (!dateTime) return null;
+
+      // Absolute times (with Z or an offset) are written in UTC
+      if (/(Z|[+-]\d{2}:?\d{2})$/.test(dateTime)) {
+        const date = new Date(dateTime);
+        referenceDates.push(date);
+        return `${name}:${formatUtc(date)}`;
+      }
+      if (isValidTimeZone(time.timeZone)) {
+        timeZones.add(time.timeZone);
+        referenceDates.push(zonedTimeToUtc(dateTime, time.timeZone));
+        return `${name};TZID=${time.timeZone}:${formatLocal(dateTime)}`;
+      }
+      return `${name}:${formatLocal(dateTime)}`;
+    };
+
+    const eventLines = [
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${formatUtc(new Date())}`,
+      timeLine('DTSTART', event.start),
+      timeLine('DTEND', event.end),
+      `SUMMARY:${escapeText(event.summary || '')}`,
+      event.description ? `DESCRIPTION:${escapeText(event.description)}` : null,
+      event.location ? `LOCATION:${escapeText(event.location)}` : null,
+      event.transparency ? `TRANSP:${event.transparency.toUpperCase()}` : null,
+      event.colorId && GOOGLE_COLORS[event.colorId] ? `COLOR:${GOOGLE_COLORS[event.colorId]}` : null,
+    ].filter((line): line is string => line !== null);
+
+    for (const [key, value] of Object.entries(event.extendedProperties?.private || {})) {
+      eventLines.push(`${EXTENDED_PROPERTY};NAME=${key}:${escapeText(String(value))}`);
+    }
+
+    for (const reminder of event.reminders?.overrides || []) {
+      eventLines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.summary || 'Reminder')}`,
+        `TRIGGER:${formatTrigger(reminder.minutes)}`,
+        'END:VALARM'
+      );
+    }
+    eventLines.push('END:VEVENT');
+
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+    if (referenceDates.length > 0) {
+      const times = referenceDates.map(date => date.getTime());
+      for (const timeZone of timeZones) {
+        lines.push(...buildVTimezone(timeZone, new Date(Math.min(...times)), new Date(Math.max(...times))));
+      }
+    }
+    lines.push(...eventLines, 'END:VCALENDAR');
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+
+  private async putEvent(
+    calendarId: string,
+    eventId: string,
+    ics: string,
+    precondition: { [key: string]: string },
+    maxRetries?: number
+  ) {
+    await this.request('PUT', this.eventUrl(calendarId, eventId), {
+      body: ics,
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...precondition },
+      maxRetries,
+    });
+  }
+
+  async createEvent(event: CalendarEvent, calendarId: string = this.defaultCalendarId) {
+    const uid = `${randomUUID()}@canvas-calendar-bridge`;
+    const eventId = `${uid.split('@')[0]}.ics`;
+
+    // If-None-Match: * makes the server refuse to overwrite an existing resource, so a retry after
+    // a lost response would fail with 412 even though the event was created
+    await this.putEvent(calendarId, eventId, this.toIcs(event, uid), { 'If-None-Match': '*' }, 0);
+    return await this.getEvent(eventId, calendarId);
+  }
+
+  async listEvents(timeMin: string, timeMax: string, maxResults?: number, calendarId: string = this.defaultCalendarId) {
+    // One entry per occurrence of recurring events, so a weekly meeting conflicts every week
+    const events = await this.queryEvents(calendarId, timeMin, timeMax, true);
+    const startOf = (event: any) => new Date(event.start?.dateTime || event.start?.date || 0).getTime();
+    events.sort((a, b) => startOf(a) - startOf(b));
+
+    return { items: maxResults ? events.slice(0, maxResults) : events };
+  }
+
+  async listBridgedEvents(
+    timeMin?: string,
+    timeMax?: string,
+    calendarId: string = this.defaultCalendarId,
+    markerKey: string = BRIDGE_MARKER_KEY
+  ): Promise<any[]> {
+    const events = await this.queryEvents(calendarId, timeMin, timeMax);
+    return events.filter(event => event.extendedProperties?.private?.[markerKey] === 'true');
+  }
+
+  async getEvent(eventId: string, calendarId: string = this.defaultCalendarId) {
+    const response = await this.request('GET', this.eventUrl(calendarId, eventId));
+    const event = this.fromIcs(await response.text(), eventId, response.headers.get('etag') || undefined);
+    if (!event) {
+      throw new Error(`CalDAV error: ${eventId} does not contain a VEVENT`);
+    }
+    return event;
+  }
+
+  // PATCH semantics like Google: given fields replace the stored ones, private extended properties
+  // are merged key by key, and a null colorId clears the color
+  async updateEvent(eventId: string, updates: Partial<CalendarEvent>, calendarId: string = this.defaultCalendarId) {
+    const existing = await this.getEvent(eventId, calendarId);
+
+    const merged = {
+      ...existing,
+      ...updates,
+      extendedProperties: {
+        private: {
+          ...existing.extendedProperties?.private,
+          ...updates.extendedProperties?.private,
+        },
+      },
+    };
+    if (updates.colorId === null) {
+      delete merged.colorId;
+    }
+
+    const uid = existing.iCalUID || `${randomUUID()}@canvas-calendar-bridge`;
+    await this.putEvent(calendarId, eventId, this.toIcs(merged, uid), existing.etag ? { 'If-Match': existing.etag } : {});
+    return await this.getEvent(eventId, calendarId);
+  }
+
+  async deleteEvent(eventId: string, calendarId: string = this.defaultCalendarId) {
+    await this.request('DELETE', this.eventUrl(calendarId, eventId));
+    return { success: true, message: 'Event deleted successfully' };
+  }
+
+  // Calendar collections in the home set, in the same shape as Google calendarList entries
+  async listCalendars(): Promise<any[]> {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop><D:resourcetype/><D:displayname/><C:calendar-description/><C:calendar-timezone/></D:prop>
+</D:propfind>`;
+
+    const response = await this.request('PROPFIND', this.homeUrl, { body, headers: { 'Depth': '1' } });
+    const xml = await response.text();
+    const defaultUrl = this.calendarUrl(this.defaultCalendarId);
+
+    const calendars: any[] = [];
+    for (const responseXml of extractElements(xml, 'response')) {
+      const href = extractText(responseXml, 'href');
+      const resourceType = extractElements(responseXml, 'resourcetype')[0] || '';
+      if (!href || !/<(?:[\w-]+:)?calendar(?:\s[^>]*)?\/?>/.test(resourceType)) continue;
+
+      const timeZoneData = extractText(responseXml, 'calendar-timezone');
+      const tzid = timeZoneData?.match(/TZID:([^\r\n]+)/)?.[1];
+      calendars.push({
+        id: href,
+        summary: extractText(responseXml, 'displayname') || href,
+        description: extractText(responseXml, 'calendar-description'),
+        timeZone: tzid,
+        accessRole: 'owner',
+        primary: new URL(href, this.homeUrl).toString() === defaultUrl,
+      });
+    }
+
+    return calendars;
+  }
+
+  // MKCALENDAR a new collection under the home set; its path is the calendar ID
+  async createCalendar(summary: string, description?: string, timeZone?: string) {
+    const slug = `${summary.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'calendar'}-${randomUUID().substring(0, 8)}`;
+    const url = new URL(`${slug}/`, this.homeUrl);
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<C:mkcalendar xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:set><D:prop>
+    <D:displayname>${escapeXml(summary)}</D:displayname>
+    ${description ? `<C:calendar-description>${escapeXml(description)}</C:calendar-description>` : ''}
+    <C:supported-calendar-component-set><C:comp name="VEVENT"/></C:supported-calendar-component-set>
+  </D:prop></D:set>
+</C:mkcalendar>`;
+
+    // A retried MKCALENDAR fails with 405 once the first one created the collection
+    await this.request('MKCALENDAR', url.toString(), { body, maxRetries: 0 });
+    return { id: url.pathname, summary, description, timeZone };
+  }
+
+  // free-busy-query REPORT (RFC 4791 section 7.10) per calendar; the server expands recurring
+  // events and leaves out transparent ones
+  async getFreeBusy(timeMin: string, timeMax: string, calendarIds: string[]): Promise<FreeBusyResult> {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<C:free-busy-query xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <C:time-range start="${formatUtc(new Date(timeMin))}" end="${formatUtc(new Date(timeMax))}"/>
+</C:free-busy-query>`;
+
+    const result: FreeBusyResult = {};
+    for (const calendarId of calendarIds) {
+      try {
+        const response = await this.request('REPORT', this.calendarUrl(calendarId), { body, headers: { 'Depth': '1' } });
+        const busy: BusyInterval[] = [];
+
+        for (const calendar of parseIcs(await response.text())) {
+          for (const freeBusy of calendar.components.filter(component => component.type === 'VFREEBUSY')) {
+            for (const property of freeBusy.properties.filter(property => property.name === 'FREEBUSY')) {
+              if ((property.params['FBTYPE'] || 'BUSY').toUpperCase() === 'FREE') continue;
+
+              // Comma-separated periods, each "start/end" or "start/duration"
+              for (const period of property.value.split(',')) {
+                const [startValue, endValue] = period.split('/');
+                const start = new Date(icsDateTimeToIso(startValue));
+                const end = endValue?.startsWith('P')
+                  ? new Date(start.getTime() + (parseTrigger(`-${endValue}`) ?? 0) * 60 * 1000)
+                  : new Date(icsDateTimeToIso(endValue || ''));
+                if (!isNaN(start.getTime()) && !isNaN(end.getTime())) {
+                  busy.push({ start: start.toISOString(), end: end.toISOString() });
+                }
+              }
+            }
+          }
+        }
+
+        result[calendarId] = { busy };
+      } catch (error) {
+        result[calendarId] = { busy: [], error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    return result;
+  }
+
+  // CalDAV has no batch request, so operations run one after another
+  async batch(operations: BatchOperation[]): Promise<BatchResult[]> {
+    const results: BatchResult[] = [];
+    for (const operation of operations) {
+      try {
+        const data = operation.kind === 'insert'
+          ? await this.createEvent(operation.event, operation.calendarId)
+          : operation.kind === 'patch'
+            ? await this.updateEvent(operation.eventId, operation.updates, operation.calendarId)
+            : await this.deleteEvent(operation.eventId, operation.calendarId);
+        results.push({ ok: true, data });
+      } catch (error) {
+        results.push({ ok: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return results;
+  }
+}
@@ -1,60 +1,278 @@
 // Canvas API integration
 
+import { RateLimitThrottle, fetchWithRetry } from './http.js';
+import { createLogger } from './logger.js';
+import {
+  CanvasDateVariant,
+  CanvasSubmissionStatus,
+  CourseFetchWarning,
+  CourseFilter,
+  PlannableType,
+  PlannerNoteInput,
+  UpcomingItemsResult,
+} from './types.js';
+
+const log = createLogger('Canvas API');
+
+// Canvas list endpoints default to 10 items per page; ask for more to cut round trips
+const DEFAULT_PER_PAGE = 100;
+// Safety cap so a misbehaving Link header can't loop forever
+const DEFAULT_MAX_PAGES = 50;
+// Start slowing down when Canvas's X-Rate-Limit-Remaining budget drops below this
+const RATE_LIMIT_THRESHOLD = 150;
+const RATE_LIMIT_MAX_DELAY_MS = 5000;
+// Courses fetched at the same time; Canvas throttles bursts, so keep this small
+const DEFAULT_CONCURRENCY = 4;
+
+// Course ID used for planner notes that don't belong to a course, so their events still carry a
+// numeric origin (Canvas course IDs start at 1)
+export const PERSONAL_COURSE_ID = 0;
+
+export const PLANNABLE_TYPES: PlannableType[] = [
+  'assignment',
+  'quiz',
+  'discussion_topic',
+  'wiki_page',
+  'planner_note',
+  'calendar_event',
+  'assessment_request',
+];
+
+// Item types that only come from the Planner API
+export const PLANNER_ITEM_TYPES = ['todo', 'planner_note'];
+
+// Canvas accepts at most 10 context_codes[] per calendar_events request
+const MAX_CONTEXT_CODES = 10;
+
+// Planner item types already covered by the course assignment lists (or not deadlines at all)
+const PLANNER_TYPES_COVERED_ELSEWHERE = new Set(['assignment', 'calendar_event', 'announcement', 'assessment_request']);
+
+// Extra item sources for getUpcomingAssignments
+export interface UpcomingItemsOptions {
+  // Also load course calendar events (lectures, exams, office hours) and reserved appointment
+  // slots starting between now and this time
+  calendarEventsUntil?: Date;
+}
+
+export interface CanvasClientOptions {
+  perPage?: number;
+  maxPages?: number;
+  concurrency?: number;
+}
+
+// Extract the rel="next" URL from a Canvas Link header
+// Format: <https://.../api/v1/courses?page=2&per_page=100>; rel="next", <...>; rel="last"
+function parseNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+// Reduce a Canvas submission object (from include[]=submission) to the flags the tools filter on
+function summarizeSubmission(submission: any): CanvasSubmissionStatus {
+  if (!submission) {
+    return { submitted: false, graded: false, late: false, missing: false, submission_state: null, submitted_at: null };
+  }
+
+  const state: string | null = submission.workflow_state || null;
+  return {
+    submitted: !!submission.submitted_at || state === 'submitted' || state === 'pending_review' || (state === 'graded' && !submission.missing),
+    graded: state === 'graded' || submission.grade != null,
+    late: submission.late === true,
+    missing: submission.missing === true,
+    submission_state: state,
+    submitted_at: submission.submitted_at || null,
+  };
+}
+
+// Whether the user takes a course as a student (rather than teaching, designing or observing it)
+function isStudentIn(course: any): boolean {
+  return (course.enrollments || []).some((enrollment: any) =>
+    enrollment.type === 'student' || enrollment.type === 'StudentEnrollment'
+  );
+}
+
+// The assignment's own (non-override) dates
+function getBaseDates(assignment: any): CanvasDateVariant {
+  return {
+    title: 'Everyone',
+    due_at: assignment.due_at || null,
+    unlock_at: assignment.unlock_at || null,
+    lock_at: assignment.lock_at || null,
+    base: true,
+    set_type: null,
+    set_id: null,
+  };
+}
+
+// Every date variant of an assignment from include[]=all_dates, or just its own dates when Canvas
+// left all_dates out (it does for assignments with very many overrides)
+function getDateVariants(assignment: any): CanvasDateVariant[] {
+  if (!Array.isArray(assignment.all_dates) || assignment.all_dates.length === 0) {
+    return [getBaseDates(assignment)];
+  }
+
+  return assignment.all_dates.map((dates: any) => ({
+    title: dates.base ? 'Everyone' : (dates.title || 'Override'),
+    due_at: dates.due_at || null,
+    unlock_at: dates.unlock_at || null,
+    lock_at: dates.lock_at || null,
+    base: dates.base === true,
+    set_type: dates.set_type || null,
+    set_id: dates.set_id ?? null,
+  }));
+}
+
+// The dates that apply to the current user. A student only sees the variants assigned to them; with
+// several (e.g. two sections) Canvas applies the latest due date, and no due date beats any date.
+// Instructors see every variant and get the base dates.
+function resolveEffectiveDates(assignment: any, student: boolean): CanvasDateVariant {
+  const variants = getDateVariants(assignment);
+  if (!student) {
+    return variants.find(variant => variant.base) || getBaseDates(assignment);
+  }
+
+  return variants.reduce((latest, variant) => {
+    if (latest.due_at === null) return latest;
+    if (variant.due_at === null || Date.parse(variant.due_at) > Date.parse(latest.due_at)) return variant;
+    return latest;
+  });
+}
+
+// The planner object type/ID to mark an assignment-list item complete with
+function getPlannable(assignment: any, itemType: string): { plannable_type: PlannableType; plannable_id: number } {
+  if (itemType === 'quiz' && assignment.quiz_id) {
+    return { plannable_type: 'quiz', plannable_id: assignment.quiz_id };
+  }
+  if (itemType === 'discussion' && assignment.discussion_topic?.id) {
+    return { plannable_type: 'discussion_topic', plannable_id: assignment.discussion_topic.id };
+  }
+  return { plannable_type: 'assignment', plannable_id: assignment.id };
+}
+
+// Run `worker` over every item with at most `limit` calls in flight; results keep the input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
+
+// Apply a CourseFilter to a course list
+function filterCourses(courses: any[], filter: CourseFilter): any[] {
+  const include = filter.courseIds?.length ? new Set(filter.courseIds.map(String)) : null;
+  const exclude = new Set((filter.excludeCourseIds || []).map(String));
+  return courses.filter(course =>
+    (!include || include.has(String(course.id))) && !exclude.has(String(course.id))
+  );
+}
+
 export class CanvasClient {
   private apiToken: string;
   private domain: string;
+  private perPage: number;
+  private maxPages: number;
+  private concurrency: number;
+  private throttle = new RateLimitThrottle('x-rate-limit-remaining', RATE_LIMIT_THRESHOLD, RATE_LIMIT_MAX_DELAY_MS);
 
-  constructor(apiToken: string, domain: string) {
+  constructor(apiToken: string, domain: string, options: CanvasClientOptions = {}) {
     this.apiToken = apiToken;
     this.domain = domain;
+    this.perPage = options.perPage || DEFAULT_PER_PAGE;
+    this.maxPages = options.maxPages || DEFAULT_MAX_PAGES;
+    this.concurrency = options.concurrency || DEFAULT_CONCURRENCY;
   }
 
+  // Fetch an endpoint, following Link: rel="next" headers until every page is read.
+  // Array responses from all pages are concatenated; non-array responses are returned as-is.
   private async fetch(endpoint: string, timeoutMs: number = 30000) {
-    const url = `${this.domain}/api/v1${endpoint}`;
-    console.error('[Canvas API] Calling URL:', url);
-    console.error('[Canvas API] Timeout:', timeoutMs, 'ms');
+    const firstUrl = new URL(`${this.domain}/api/v1${endpoint}`);
+    if (!firstUrl.searchParams.has('per_page')) {
+      firstUrl.searchParams.set('per_page', String(this.perPage));
+    }
 
-    // Create an AbortController for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      console.error('[Canvas API] REQUEST TIMEOUT - Aborting after', timeoutMs, 'ms');
-      controller.abort();
-    }, timeoutMs);
+    let url: string | null = firstUrl.toString();
+    let pageCount = 0;
+    let results: any[] | null = null;
 
-    try {
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${this.apiToken}`,
-          'Content-Type': 'application/json'
-        },
-        signal: controller.signal
-      });
+    while (url) {
+      if (pageCount >= this.maxPages) {
+        const capError = `Canvas API pagination cap reached (${this.maxPages} pages) for ${endpoint}. Increase CANVAS_MAX_PAGES if this is expected.`;
+        log.error(capError);
+        throw new Error(capError);
+      }
 
-      clearTimeout(timeoutId);
+      const { data, nextUrl } = await this.fetchPage(url, timeoutMs);
+      pageCount++;
+
+      if (!Array.isArray(data)) {
+        return data;
+      }
+
+      results = results ? results.concat(data) : data;
+      url = nextUrl;
+    }
+
+    log.debug(`${endpoint}: ${pageCount} page(s), ${results?.length ?? 0} item(s)`);
+    return results;
+  }
+
+  private async fetchPage(url: string, timeoutMs: number): Promise<{ data: any; nextUrl: string | null }> {
+    log.debug(`GET ${url} (timeout ${timeoutMs}ms)`);
+
+    try {
+      // Retries 429/5xx and Canvas's "Rate Limit Exceeded" 403 with backoff; each attempt times out separately
+      const response = await fetchWithRetry(
+        url,
+        () => ({
+          headers: {
+            'Authorization': `Bearer ${this.apiToken}`,
+            'Content-Type': 'application/json'
+          }
+        }),
+        {
+          label: 'Canvas API',
+          timeoutMs,
+          throttle: this.throttle,
+          isRetryable: (response, bodyText) => response.status === 403 && /rate limit exceeded/i.test(bodyText),
+        }
+      );
 
       if (!response.ok) {
         const errorMsg = `Canvas API error: ${response.status} ${response.statusText}`;
-        console.error('[Canvas API] HTTP ERROR:', errorMsg);
+        log.error(errorMsg);
         throw new Error(errorMsg);
       }
 
-      console.error('[Canvas API] Response received successfully');
       const data = await response.json();
-      console.error('[Canvas API] Data parsed, items count:', Array.isArray(data) ? data.length : 'N/A (not an array)');
+      log.trace(`Response from ${url}`, data);
 
-      return data;
+      return { data, nextUrl: parseNextLink(response.headers.get('link')) };
     } catch (error) {
-      clearTimeout(timeoutId);
-
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
           const timeoutError = `Canvas API timeout after ${timeoutMs}ms for ${url}`;
-          console.error('[Canvas API] TIMEOUT ERROR:', timeoutError);
+          log.error(timeoutError);
           throw new Error(timeoutError);
         }
-        console.error('[Canvas API] FETCH ERROR:', error.message);
+        log.error(`Request failed: ${error.message}`);
       } else {
-        console.error('[Canvas API] UNKNOWN ERROR:', error);
+        log.error('Request failed', error);
       }
 
       throw error;
@@ -82,150 +300,110 @@ export class CanvasClient {
     return 'event';
   }
 
-  // Get all upcoming Canvas items (assignments, quizzes, discussions, events)
-  async getUpcomingAssignments() {
+  // Published, dated assignments/quizzes/discussions from every active course (narrowed by `filter`).
+  // Courses are fetched in parallel; a course that fails is reported in `warnings` and the rest still load.
+  async getUpcomingAssignments(filter: CourseFilter = {}, options: UpcomingItemsOptions = {}): Promise<UpcomingItemsResult> {
     try {
-      console.error('=================================================================================');
-      console.error('=== CANVAS API DEBUG START ===');
-      console.error('=================================================================================');
-
-      const now = new Date();
-      console.error('[Canvas API] Current time:', now.toISOString());
-
       // Step 1: Get all active courses (any enrollment type - student, teacher, ta, etc.)
-      console.error('\n[Canvas API] Step 1: Fetching active courses...');
-      const coursesEndpoint = '/courses?enrollment_state=active';
-      console.error('[Canvas API] Courses endpoint:', coursesEndpoint);
-      const courses = await this.fetch(coursesEndpoint);
-      console.error('[Canvas API] Active courses found:', courses.length);
+      const courses = await this.fetch('/courses?enrollment_state=active');
+      log.info(`Active courses found: ${courses.length}`);
 
       if (courses.length > 0) {
-        console.error('[Canvas API] Courses:');
-        courses.forEach((course: any) => {
-          console.error(`  - ${course.name} (ID: ${course.id})`);
-        });
+        log.debug('Courses', courses.map((course: any) => `${course.name} (ID: ${course.id})`));
       } else {
-        console.error('[Canvas API] WARNING: No active courses found!');
+        log.warn('No active courses found');
+      }
+
+      const selectedCourses = filterCourses(courses, filter);
+      if (selectedCourses.length !== courses.length) {
+        log.info(`Course filter selected ${selectedCourses.length} of ${courses.length} courses`);
       }
 
       // Step 2: Get assignments from each course
-      console.error('\n[Canvas API] Step 2: Fetching assignments from each course...');
+      log.debug(`Fetching assignments from ${selectedCourses.length} course(s), ${this.concurrency} at a time`);
       const allAssignments: any[] = [];
-      const failedCourses: string[] = [];
+      const loadedCourseIds: number[] = [];
+      const warnings: CourseFetchWarning[] = [];
 
-      for (const course of courses) {
-        console.error(`\n[Canvas API] Fetching assignments for course: ${course.name} (ID: ${course.id})`);
+      const courseResults = await mapWithConcurrency(selectedCourses, this.concurrency, async (course: any) => {
+        log.debug(`Fetching assignments for course: ${course.name} (ID: ${course.id})`);
         try {
-          const assignmentsEndpoint = `/courses/${course.id}/assignments`;
+          // include[]=submission adds the current user's submission so items can be filtered by status;
+          // include[]=all_dates adds section/student override dates
+          const assignmentsEndpoint = `/courses/${course.id}/assignments?include[]=submission&include[]=all_dates`;
           const assignments = await this.fetch(assignmentsEndpoint);
-          console.error(`[Canvas API]   ✓ SUCCESS - Found ${assignments.length} assignments in ${course.name}`);
+          log.debug(`Found ${assignments.length} assignments in ${course.name}`);
 
-          // Add course context to each assignment
+          // Add course context and the user's own dates to each assignment
+          const student = isStudentIn(course);
           assignments.forEach((assignment: any) => {
             assignment.course_name = course.name;
             assignment.course_id = course.id;
+            assignment.course_code = course.course_code;
+            assignment.effective_dates = resolveEffectiveDates(assignment, student);
           });
 
-          allAssignments.push(...assignments);
+          // Time limit and allowed attempts only come from the Quizzes API; without them the
+          // quizzes are still listed
+          if (assignments.some((assignment: any) => assignment.quiz_id)) {
+            try {
+              const quizzes = await this.fetch(`/courses/${course.id}/quizzes`);
+              const quizById = new Map<string, any>(quizzes.map((quiz: any) => [String(quiz.id), quiz]));
+              assignments.forEach((assignment: any) => {
+                if (assignment.quiz_id) assignment.quiz = quizById.get(String(assignment.quiz_id));
+              });
+            } catch (error) {
+              log.warn(`Could not load quiz details for ${course.name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+          }
+
+          return { course, assignments, error: null };
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : String(error);
-          console.error(`[Canvas API]   ✗ FAILED - Error fetching assignments for ${course.name}:`, errorMsg);
-          console.error(`[Canvas API]   ✗ Full error:`, error);
-          failedCourses.push(`${course.name}: ${errorMsg}`);
-          // DO NOT CONTINUE - Re-throw the error to fail fast
-          throw new Error(`Failed to fetch assignments for course "${course.name}": ${errorMsg}`);
+          log.warn(`Failed to fetch assignments for ${course.name}: ${errorMsg}`);
+          return { course, assignments: [], error: errorMsg };
         }
-      }
+      });
 
-      if (failedCourses.length > 0) {
-        console.error('\n[Canvas API] WARNING: Some courses failed to load:');
-        failedCourses.forEach(msg => console.error(`  - ${msg}`));
+      for (const { course, assignments, error } of courseResults) {
+        if (error !== null) {
+          warnings.push({ courseId: course.id, courseName: course.name, error });
+        } else {
+          loadedCourseIds.push(course.id);
+          allAssignments.push(...assignments);
+        }
       }
 
-      console.error('\n[Canvas API] Total assignments from all courses:', allAssignments.length);
+      log.info(`Total assignments from ${loadedCourseIds.length} course(s): ${allAssignments.length}` +
+        (warnings.length > 0 ? ` (${warnings.length} course(s) failed to load)` : ''));
 
       // Step 3: Filter for published assignments with due dates
-      console.error('\n[Canvas API] Step 3: Filtering for published assignments with due dates...');
       const events = allAssignments.filter((assignment: any) => {
         const isPublished = assignment.published === true;
-        const hasDueDate = !!assignment.due_at;
+        const hasDueDate = !!assignment.effective_dates.due_at;
 
         if (!isPublished) {
-          console.error(`[Canvas API]   - Filtered out "${assignment.name}": not published`);
+          log.debug(`Filtered out "${assignment.name}": not published`);
         } else if (!hasDueDate) {
-          console.error(`[Canvas API]   - Filtered out "${assignment.name}": no due date`);
-        } else {
-          console.error(`[Canvas API]   - Included "${assignment.name}": published with due date`);
+          log.debug(`Filtered out "${assignment.name}": no due date`);
         }
 
         return isPublished && hasDueDate;
       });
 
-      console.error('[Canvas API] Total events received:', events.length);
-
-      // Log the RAW response for the first few items
-      if (events.length > 0) {
-        console.error('=================================================================================');
-        console.error('[Canvas API] RAW JSON RESPONSE (first 3 items):');
-        console.error('=================================================================================');
-        events.slice(0, 3).forEach((event: any, index: number) => {
-          console.error(`\n--- RAW Event ${index + 1} ---`);
-          console.error(JSON.stringify(event, null, 2));
-        });
-        console.error('=================================================================================');
-      }
-
-      // Log detailed summary of all events
-      if (events.length > 0) {
-        console.error('\n=================================================================================');
-        console.error('[Canvas API] SUMMARY OF ALL EVENTS:');
-        console.error('=================================================================================');
-        events.forEach((event: any, index: number) => {
-          console.error(`\nEvent ${index + 1}/${events.length}:`, {
-            id: event.id,
-            title: event.title,
-            type: event.type,
-            start_at: event.start_at,
-            end_at: event.end_at,
-            all_day: event.all_day,
-            workflow_state: event.workflow_state,
-            context_name: event.context_name,
-            has_assignment: !!event.assignment,
-            assignment_due_at: event.assignment?.due_at,
-            assignment_quiz_id: event.assignment?.quiz_id,
-            assignment_submission_types: event.assignment?.submission_types,
-            assignment_points_possible: event.assignment?.points_possible,
-            all_top_level_keys: Object.keys(event),
-            assignment_keys: event.assignment ? Object.keys(event.assignment) : []
-          });
-        });
-        console.error('=================================================================================');
-      }
-
-      // Count items with and without start_at
-      const withStartAt = events.filter((e: any) => e.start_at).length;
-      const withoutStartAt = events.filter((e: any) => !e.start_at).length;
-      console.error('\n[Canvas API] Date field analysis:');
-      console.error('  - Items with start_at:', withStartAt);
-      console.error('  - Items without start_at:', withoutStartAt);
+      log.debug(`Published items with due dates: ${events.length}`);
+      log.trace('Raw assignments', events);
 
       // Step 4: Transform to consistent format with type detection
-      console.error('\n=================================================================================');
-      console.error('[Canvas API] Step 4: TRANSFORMATION:');
-      console.error('=================================================================================');
-
       const transformed = events.map((assignment: any) => {
         // Determine type based on assignment properties
         let itemType: string;
         if (assignment.is_quiz_assignment || assignment.quiz_id) {
           itemType = 'quiz';
-          console.error(`[TYPE DETECTION] "${assignment.name}": QUIZ (has quiz_id: ${assignment.quiz_id})`);
         } else if (assignment.submission_types?.includes('discussion_topic')) {
           itemType = 'discussion';
-          console.error(`[TYPE DETECTION] "${assignment.name}": DISCUSSION`);
         } else {
           itemType = 'assignment';
-          console.error(`[TYPE DETECTION] "${assignment.name}": ASSIGNMENT`);
         }
 
         const transformedItem = {
@@ -233,54 +411,294 @@ export class CanvasClient {
           title: assignment.name,
           name: assignment.name,
           type: itemType,
-          due_at: assignment.due_at,
-          start_at: assignment.due_at, // Use due_at as start_at for compatibility
-          end_at: assignment.due_at,
+          due_at: assignment.effective_dates.due_at,
+          start_at: assignment.effective_dates.due_at, // Use due_at as start_at for compatibility
+          end_at: assignment.effective_dates.due_at,
+          unlock_at: assignment.effective_dates.unlock_at,
+          lock_at: assignment.effective_dates.lock_at,
+          // Which date variant applies ("Everyone", a section name, "1 student", ...)
+          due_date_variant: assignment.effective_dates.title,
+          date_variants: getDateVariants(assignment),
+          // Quizzes only; minutes (null = no limit) and attempts (-1 = unlimited)
+          quiz_time_limit: assignment.quiz ? (assignment.quiz.time_limit ?? null) : undefined,
+          quiz_allowed_attempts: assignment.quiz ? (assignment.quiz.allowed_attempts ?? null) : undefined,
           all_day: false,
           description: assignment.description || '',
           points_possible: assignment.points_possible,
           context_name: assignment.course_name,
+          course_id: assignment.course_id,
+          course_code: assignment.course_code,
           context_code: `course_${assignment.course_id}`,
           workflow_state: assignment.workflow_state,
           html_url: assignment.html_url,
+          ...summarizeSubmission(assignment.submission),
+          ...getPlannable(assignment, itemType),
           assignment: assignment, // Include full assignment data
         };
 
-        console.error(`[TRANSFORMED] "${assignment.name}":`, {
+        log.trace(`Transformed "${assignment.name}"`, {
           id: transformedItem.id,
           type: transformedItem.type,
           due_at: transformedItem.due_at,
           points: transformedItem.points_possible,
-          course: transformedItem.context_name
+          course: transformedItem.context_name,
+          submitted: transformedItem.submitted,
+          graded: transformedItem.graded
         });
 
         return transformedItem;
       });
 
-      console.error('\n=================================================================================');
-      console.error('[Canvas API] FINAL RESULTS:');
-      console.error('  - Raw events from API:', events.length);
-      console.error('  - After filtering:', transformed.length);
-      console.error('  - Filtered out:', events.length - transformed.length);
-      console.error('=================================================================================');
-      console.error('=== CANVAS API DEBUG END ===');
-      console.error('=================================================================================\n');
+      // Step 5: Ungraded to-dos and planner notes from the Planner API. A failure here only drops
+      // those item types; the assignments above are still returned.
+      const skippedItemTypes: string[] = [];
+      try {
+        const selectedCourseIds = new Map<string, any>(selectedCourses.map((course: any) => [String(course.id), course]));
+        const plannerItems = (await this.getPlannerItems(new Date().toISOString()))
+          .filter((item: any) => item.course_id
+            ? selectedCourseIds.has(String(item.course_id))
+            // Personal notes have no course; a courseIds filter leaves them out
+            : !filter.courseIds?.length)
+          .map((item: any) => this.transformPlannerItem(item, selectedCourseIds.get(String(item.course_id))))
+          .filter((item: any) => item !== null);
+
+        log.info(`Planner to-dos and notes: ${plannerItems.length}`);
+        transformed.push(...plannerItems);
+        if (!filter.courseIds?.length) {
+          loadedCourseIds.push(PERSONAL_COURSE_ID);
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log.warn(`Failed to fetch planner items: ${errorMsg}`);
+        warnings.push({ courseId: PERSONAL_COURSE_ID, courseName: 'Canvas Planner (to-dos and planner notes)', error: errorMsg });
+        skippedItemTypes.push(...PLANNER_ITEM_TYPES);
+      }
 
-      return transformed;
+      // Step 6: Calendar events of the selected courses, plus the user's own calendar, which holds
+      // reserved appointment slots
+      if (options.calendarEventsUntil) {
+        try {
+          const courseById = new Map<string, any>(selectedCourses.map((course: any) => [String(course.id), course]));
+          const contextCodes = selectedCourses.map((course: any) => `course_${course.id}`);
+          if (!filter.courseIds?.length) {
+            const profile = await this.getProfile();
+            contextCodes.push(`user_${profile.id}`);
+          }
+
+          const calendarEvents = (await this.getCalendarEvents(contextCodes, new Date().toISOString(), options.calendarEventsUntil.toISOString()))
+            .map((event: any) => this.transformCalendarEvent(event, courseById))
+            .filter((event: any) => event !== null);
+
+          log.info(`Calendar events: ${calendarEvents.length}`);
+          transformed.push(...calendarEvents);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          log.warn(`Failed to fetch calendar events: ${errorMsg}`);
+          warnings.push({ courseId: PERSONAL_COURSE_ID, courseName: 'Canvas calendar events', error: errorMsg });
+          skippedItemTypes.push('event');
+        }
+      } else {
+        // Not loaded, so events synced earlier must not look removed from Canvas
+        skippedItemTypes.push('event');
+      }
+
+      log.info(`Upcoming items: ${transformed.length}`);
+
+      return { items: transformed, loadedCourseIds, warnings, skippedItemTypes };
     } catch (error) {
-      console.error('=================================================================================');
-      console.error('[Canvas API] ERROR:', error);
-      console.error('=================================================================================');
+      log.error('Failed to fetch upcoming assignments', error);
       throw error;
     }
   }
 
 
+  // Planner item -> the same shape as assignment items. Returns null for items the course
+  // assignment lists already cover (graded assignments, quizzes and discussions) and undated ones.
+  private transformPlannerItem(item: any, course: any): any | null {
+    const plannable = item.plannable || {};
+    const isNote = item.plannable_type === 'planner_note';
+    if (PLANNER_TYPES_COVERED_ELSEWHERE.has(item.plannable_type) || (!isNote && plannable.assignment_id)) {
+      return null;
+    }
+
+    const dueAt = plannable.todo_date || item.plannable_date;
+    if (!dueAt) {
+      log.debug(`Filtered out planner item "${plannable.title}": no to-do date`);
+      return null;
+    }
+
+    const markedComplete = item.planner_override?.marked_complete === true;
+    const submissions = item.submissions || {};
+
+    return {
+      id: item.plannable_id,
+      title: plannable.title,
+      name: plannable.title,
+      type: isNote ? 'planner_note' : 'todo',
+      due_at: dueAt,
+      start_at: dueAt,
+      end_at: dueAt,
+      all_day: false,
+      description: (isNote ? plannable.details : plannable.body) || '',
+      points_possible: null,
+      context_name: course?.name || item.context_name || (isNote ? 'Personal' : 'N/A'),
+      course_id: item.course_id ?? PERSONAL_COURSE_ID,
+      course_code: course?.course_code,
+      context_code: item.course_id ? `course_${item.course_id}` : `user_${plannable.user_id}`,
+      workflow_state: plannable.workflow_state,
+      // Planner URLs are relative to the Canvas domain
+      html_url: item.html_url ? new URL(item.html_url, this.domain).toString() : undefined,
+      // Marking a to-do done in the planner counts as submitting it
+      submitted: submissions.submitted === true || markedComplete,
+      graded: submissions.graded === true,
+      late: submissions.late === true,
+      missing: submissions.missing === true,
+      submission_state: null,
+      submitted_at: null,
+      marked_complete: markedComplete,
+      plannable_type: item.plannable_type,
+      plannable_id: item.plannable_id,
+      planner_item: item,
+    };
+  }
+
+  // Canvas calendar event -> the same shape as assignment items, keeping its real start/end,
+  // all-day flag and location. Deleted and hidden (section parent) events are dropped.
+  private transformCalendarEvent(event: any, courseById: Map<string, any>): any | null {
+    if (event.workflow_state === 'deleted' || event.hidden === true || !event.start_at) {
+      return null;
+    }
+
+    // Section-specific events carry their course in effective_context_code
+    const contextCode: string = event.effective_context_code || event.context_code || '';
+    const courseMatch = contextCode.match(/^course_(\d+)$/);
+    const course = courseMatch ? courseById.get(courseMatch[1]) : undefined;
+
+    return {
+      id: event.id,
+      title: event.title,
+      name: event.title,
+      type: 'event',
+      // The start time doubles as the due date for window checks and sorting
+      due_at: event.start_at,
+      start_at: event.start_at,
+      end_at: event.end_at || event.start_at,
+      all_day: event.all_day === true,
+      all_day_date: event.all_day_date || null,
+      location_name: event.location_name || null,
+      location_address: event.location_address || null,
+      description: event.description || '',
+      points_possible: null,
+      context_name: course?.name || event.context_name || 'Personal',
+      course_id: courseMatch ? Number(courseMatch[1]) : PERSONAL_COURSE_ID,
+      course_code: course?.course_code,
+      context_code: contextCode,
+      workflow_state: event.workflow_state,
+      html_url: event.html_url,
+      submitted: false,
+      graded: false,
+      late: false,
+      missing: false,
+      submission_state: null,
+      submitted_at: null,
+      plannable_type: 'calendar_event',
+      plannable_id: event.id,
+      calendar_event: event,
+    };
+  }
+
+  // Send a JSON body with POST/PUT and return the parsed response
+  private async send(method: 'POST' | 'PUT', endpoint: string, body: object, timeoutMs: number = 30000): Promise<any> {
+    const url = `${this.domain}/api/v1${endpoint}`;
+    log.debug(`${method} ${url}`);
+
+    const response = await fetchWithRetry(
+      url,
+      () => ({
+        method,
+        headers: {
+          'Authorization': `Bearer ${this.apiToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body),
+      }),
+      {
+        label: 'Canvas API',
+        timeoutMs,
+        throttle: this.throttle,
+        // A retried POST could create the same object twice
+        maxRetries: method === 'POST' ? 0 : undefined,
+        isRetryable: (response, bodyText) => response.status === 403 && /rate limit exceeded/i.test(bodyText),
+      }
+    );
+
+    if (!response.ok) {
+      const errorMsg = `Canvas API error: ${response.status} ${response.statusText} - ${await response.text()}`;
+      log.error(errorMsg);
+      throw new Error(errorMsg);
+    }
+
+    return await response.json();
+  }
+
+  // Planner items (assignments, to-dos, planner notes, ...) of the current user from startDate on
+  async getPlannerItems(startDate?: string, endDate?: string): Promise<any[]> {
+    const params = new URLSearchParams();
+    if (startDate) params.set('start_date', startDate);
+    if (endDate) params.set('end_date', endDate);
+    const query = params.toString();
+    return await this.fetch(`/planner/items${query ? `?${query}` : ''}`);
+  }
+
+  async createPlannerNote(note: PlannerNoteInput): Promise<any> {
+    return await this.send('POST', '/planner_notes', note);
+  }
+
+  // Mark a planner item complete (or not complete again). Canvas keeps one override per item,
+  // so an existing override is updated instead of creating a second one.
+  async setPlannerItemComplete(plannableType: PlannableType, plannableId: number, complete: boolean): Promise<any> {
+    const overrides = await this.fetch('/planner/overrides');
+    const existing = overrides.find((override: any) =>
+      override.plannable_type === plannableType && String(override.plannable_id) === String(plannableId)
+    );
+
+    if (existing) {
+      return await this.send('PUT', `/planner/overrides/${existing.id}`, { marked_complete: complete });
+    }
+    return await this.send('POST', '/planner/overrides', {
+      plannable_type: plannableType,
+      plannable_id: plannableId,
+      marked_complete: complete,
+    });
+  }
+
   async getCourses() {
     try {
       return await this.fetch('/courses?enrollment_state=active');
     } catch (error) {
-      console.error('Error fetching courses:', error);
+      log.error('Error fetching courses', error);
+      throw error;
+    }
+  }
+
+  // The current user's profile (includes time_zone, e.g. "America/Denver")
+  async getProfile() {
+    try {
+      return await this.fetch('/users/self/profile');
+    } catch (error) {
+      log.error('Error fetching user profile', error);
+      throw error;
+    }
+  }
+
+  // One assignment with every date variant (base dates plus each section/group/student override).
+  // Students only get the variants that apply to them.
+  async getAssignmentDates(courseId: number, assignmentId: number): Promise<{ assignment: any; variants: CanvasDateVariant[] }> {
+    try {
+      const assignment = await this.fetch(`/courses/${courseId}/assignments/${assignmentId}?all_dates=true`);
+      return { assignment, variants: getDateVariants(assignment) };
+    } catch (error) {
+      log.error(`Error fetching dates for assignment ${assignmentId} in course ${courseId}`, error);
       throw error;
     }
   }
@@ -289,19 +707,26 @@ export class CanvasClient {
     try {
       return await this.fetch(`/courses/${courseId}/assignments`);
     } catch (error) {
-      console.error(`Error fetching assignments for course ${courseId}:`, error);
+      log.error(`Error fetching assignments for course ${courseId}`, error);
       throw error;
     }
   }
 
-  async getCalendarEvents(startDate?: string, endDate?: string) {
+  // Calendar events (type=event) of the given contexts ("course_123", "user_456") between two times.
+  // Larger context lists are split into requests of MAX_CONTEXT_CODES.
+  async getCalendarEvents(contextCodes: string[], startDate: string, endDate: string): Promise<any[]> {
     try {
-      let endpoint = '/calendar_events?context_codes[]=user_1';
-      if (startDate) endpoint += `&start_date=${startDate}`;
-      if (endDate) endpoint += `&end_date=${endDate}`;
-      return await this.fetch(endpoint);
+      const events: any[] = [];
+      for (let i = 0; i < contextCodes.length; i += MAX_CONTEXT_CODES) {
+        const params = new URLSearchParams({ type: 'event', start_date: startDate, end_date: endDate });
+        for (const contextCode of contextCodes.slice(i, i + MAX_CONTEXT_CODES)) {
+          params.append('context_codes[]', contextCode);
+        }
+        events.push(...await this.fetch(`/calendar_events?${params.toString()}`));
+      }
+      return events;
     } catch (error) {
-      console.error('Error fetching calendar events:', error);
+      log.error('Error fetching calendar events', error);
       throw error;
     }
   }
@@ -0,0 +1,262 @@
+// Command-line interface: runs the same tool handlers as the MCP server, for scripts, cron and
+// systemd timers. `node build/index.js <command>` lands here; without a command the MCP server starts.
+
+import { DaemonSchedule, describeSchedule, parseCron, parseInterval, runDaemon } from './daemon.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('CLI');
+
+// Exit codes: 0 success, 1 the tool failed, 2 bad usage
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const DEFAULT_DAEMON_INTERVAL = '60m';
+
+// Result of a tool call, as returned to MCP clients
+export interface ToolResult {
+  content: Array<{ type: string; text?: string }>;
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+export type ToolCaller = (name: string, args: Record<string, unknown>) => Promise<ToolResult>;
+
+const USAGE = `Usage: canvas-calendar-bridge <command> [options]
+Without a command, the MCP server starts on stdio.
+
+Commands:
+  sync                     Sync Canvas items to the calendar (sync_to_calendar)
+  assignments              List upcoming Canvas items (get_canvas_assignments)
+  events list              List upcoming calendar events (list_calendar_events)
+  auth                     Sign in to Google Calendar in the browser (google_login)
+  auth status              Show Google sign-in status
+  auth logout              Revoke Google access and delete the stored credentials
+  daemon                   Run sync on an interval or cron schedule until stopped
+  help                     Show this help
+
+Sync and daemon options:
+  --days <n>               Days ahead to sync (default: 14, or daysAhead from the rules file)
+  --calendar <id>          Target calendar ID
+  --per-course-calendars   One secondary calendar per course
+  --timezone <iana>        Timezone for event times
+  --course <id>            Only this course (repeatable)
+  --exclude-course <id>    Leave out this course (repeatable)
+  --stale <policy>         keep, mark or delete events removed from Canvas
+  --submitted <policy>     keep, drop_reminders, recolor or delete submitted items
+  --no-calendar-events     Don't sync course calendar events
+  --dry-run                Only show what would change, without writing (sync only)
+
+Daemon options:
+  --interval <duration>    Run every 90s / 30m / 2h / 1d (default: SYNC_DAEMON_INTERVAL or ${DEFAULT_DAEMON_INTERVAL})
+  --cron "<expression>"    Run on a 5-field cron schedule in local time (default: SYNC_DAEMON_CRON)
+
+Other options:
+  --json                   Print machine-readable JSON (sync, assignments, events list)
+  --max <n>                Maximum events to list (events list, default: 10)
+  --no-browser             Print the sign-in URL instead of opening a browser (auth)
+  --timeout <seconds>      How long to wait for sign-in (auth, default: 300)
+`;
+
+const VALUE_OPTIONS = [
+  'days', 'calendar', 'timezone', 'course', 'exclude-course', 'stale', 'submitted',
+  'interval', 'cron', 'max', 'timeout',
+];
+const FLAG_OPTIONS = ['per-course-calendars', 'no-calendar-events', 'dry-run', 'json', 'no-browser', 'help'];
+
+interface ParsedArgs {
+  positionals: string[];
+  // Every value given per option, in order (repeatable options keep all of them)
+  values: Map<string, string[]>;
+  flags: Set<string>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], values: new Map(), flags: new Set() };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.substring(2).split(/=(.*)/s, 2);
+    if (FLAG_OPTIONS.includes(name)) {
+      if (inlineValue !== undefined) throw new Error(`--${name} doesn't take a value`);
+      parsed.flags.add(name);
+    } else if (VALUE_OPTIONS.includes(name)) {
+      const value = inlineValue ?? argv[++index];
+      if (value === undefined) throw new Error(`--${name} needs a value`);
+      parsed.values.set(name, [...(parsed.values.get(name) || []), value]);
+    } else {
+      throw new Error(`Unknown option --${name}`);
+    }
+  }
+  return parsed;
+}
+
+function readNumber(parsed: ParsedArgs, name: string): number | undefined {
+  const value = parsed.values.get(name)?.at(-1);
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`--${name} must be a positive number`);
+  }
+  return number;
+}
+
+function readIds(parsed: ParsedArgs, name: string): number[] | undefined {
+  const values = parsed.values.get(name);
+  if (!values) return undefined;
+  return values.map(value => {
+    if (!/^\d+$/.test(value)) throw new Error(`--${name} must be a Canvas course ID`);
+    return Number(value);
+  });
+}
+
+// Options shared by sync and daemon -> sync_to_calendar arguments (undefined ones are left to the tool)
+function readSyncArgs(parsed: ParsedArgs): Record<string, unknown> {
+  const args: Record<string, unknown> = {
+    daysAhead: readNumber(parsed, 'days'),
+    calendarId: parsed.values.get('calendar')?.at(-1),
+    timezone: parsed.values.get('timezone')?.at(-1),
+    courseIds: readIds(parsed, 'course'),
+    excludeCourseIds: readIds(parsed, 'exclude-course'),
+    staleEvents: parsed.values.get('stale')?.at(-1),
+    submittedItems: parsed.values.get('submitted')?.at(-1),
+    perCourseCalendars: parsed.flags.has('per-course-calendars') ? true : undefined,
+    includeCalendarEvents: parsed.flags.has('no-calendar-events') ? false : undefined,
+  };
+  return Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined));
+}
+
+// Print a tool result: its text, or with --json its structured content. Returns the exit code.
+function printResult(result: ToolResult, json: boolean): number {
+  const text = result.content.map(part => part.text || '').filter(Boolean).join('\n\n');
+  if (result.isError) {
+    process.stderr.write(`${text}\n`);
+    return EXIT_FAILED;
+  }
+  if (json) {
+    if (result.structuredContent === undefined) {
+      process.stderr.write('This command has no JSON output\n');
+      return EXIT_USAGE;
+    }
+    process.stdout.write(`${JSON.stringify(result.structuredContent, null, 2)}\n`);
+  } else {
+    process.stdout.write(`${text}\n`);
+  }
+  return EXIT_OK;
+}
+
+function readDaemonSchedule(parsed: ParsedArgs): DaemonSchedule {
+  const cron = parsed.values.get('cron')?.at(-1);
+  const interval = parsed.values.get('interval')?.at(-1);
+  if (cron && interval) {
+    throw new Error('Use either --interval or --cron, not both');
+  }
+  if (cron) return { kind: 'cron', cron: parseCron(cron) };
+  if (interval) return { kind: 'interval', intervalMs: parseInterval(interval) };
+
+  if (process.env.SYNC_DAEMON_CRON) return { kind: 'cron', cron: parseCron(process.env.SYNC_DAEMON_CRON) };
+  return { kind: 'interval', intervalMs: parseInterval(process.env.SYNC_DAEMON_INTERVAL || DEFAULT_DAEMON_INTERVAL) };
+}
+
+async function runDaemonCommand(parsed: ParsedArgs, callTool: ToolCaller): Promise<number> {
+  if (parsed.flags.has('dry-run')) {
+    throw new Error('--dry-run only works with the sync command');
+  }
+  const schedule = readDaemonSchedule(parsed);
+  const syncArgs = readSyncArgs(parsed);
+
+  // Stop after the current run on Ctrl+C / systemctl stop
+  const controller = new AbortController();
+  const stop = (signal: string) => {
+    log.info(`Received ${signal}, stopping after the current run`);
+    controller.abort();
+  };
+  process.once('SIGINT', () => stop('SIGINT'));
+  process.once('SIGTERM', () => stop('SIGTERM'));
+
+  process.stdout.write(`Running sync ${describeSchedule(schedule)}. Stop with Ctrl+C.\n`);
+  await runDaemon(async () => {
+    const result = await callTool('sync_to_calendar', syncArgs);
+    const text = result.content.map(part => part.text || '').join('\n');
+    // A lock held by another sync shows up here too; the next run tries again
+    if (result.isError) {
+      process.stderr.write(`[${new Date().toISOString()}] ${text}\n`);
+      return;
+    }
+    // The summary line and run ID are enough for a service log; details are in the journal
+    const runLine = text.split('\n').find(line => line.startsWith('Run ID:'));
+    process.stdout.write(`[${new Date().toISOString()}] ${text.split('\n')[0]}${runLine ? ` ${runLine}` : ''}\n`);
+  }, schedule, controller.signal);
+  return EXIT_OK;
+}
+
+// Run one CLI command; resolves with the process exit code
+export async function runCli(argv: string[], callTool: ToolCaller): Promise<number> {
+  let parsed: ParsedArgs;
+  try {
+    parsed = parseArgs(argv);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const [command, subcommand] = parsed.positionals;
+  const json = parsed.flags.has('json');
+  if (!command || command === 'help' || parsed.flags.has('help')) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+
+  try {
+    switch (command) {
+      case 'sync': {
+        const args = readSyncArgs(parsed);
+        // Plans live in the memory of one process, so a CLI dry run is a preview only
+        if (parsed.flags.has('dry-run')) args.dryRun = true;
+        return printResult(await callTool('sync_to_calendar', args), json);
+      }
+
+      case 'assignments':
+        return printResult(await callTool('get_canvas_assignments', {
+          ...(parsed.values.has('timezone') ? { timezone: parsed.values.get('timezone')!.at(-1) } : {}),
+          ...(parsed.values.has('course') ? { courseIds: readIds(parsed, 'course') } : {}),
+          ...(parsed.values.has('exclude-course') ? { excludeCourseIds: readIds(parsed, 'exclude-course') } : {}),
+        }), json);
+
+      case 'events':
+        if (subcommand !== 'list') {
+          throw new Error(`Unknown events command "${subcommand ?? ''}". Use: events list`);
+        }
+        return printResult(await callTool('list_calendar_events', {
+          ...(parsed.values.has('days') ? { daysAhead: readNumber(parsed, 'days') } : {}),
+          ...(parsed.values.has('max') ? { maxResults: readNumber(parsed, 'max') } : {}),
+          ...(parsed.values.has('calendar') ? { calendarId: parsed.values.get('calendar')!.at(-1) } : {}),
+        }), json);
+
+      case 'auth':
+        if (subcommand === 'status') return printResult(await callTool('google_auth_status', {}), false);
+        if (subcommand === 'logout') return printResult(await callTool('google_logout', {}), false);
+        if (subcommand !== undefined) {
+          throw new Error(`Unknown auth command "${subcommand}". Use: auth, auth status or auth logout`);
+        }
+        return printResult(await callTool('google_login', {
+          openBrowser: !parsed.flags.has('no-browser'),
+          ...(parsed.values.has('timeout') ? { timeoutSeconds: readNumber(parsed, 'timeout') } : {}),
+        }), false);
+
+      case 'daemon':
+        return await runDaemonCommand(parsed, callTool);
+
+      default:
+        throw new Error(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\nRun "canvas-calendar-bridge help" for usage.\n`);
+    return EXIT_USAGE;
+  }
+}
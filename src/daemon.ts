@@ -0,0 +1,180 @@
+// Daemon mode: run a job on a fixed interval or a cron schedule until stopped
+
+import { createLogger } from './logger.js';
+
+const log = createLogger('daemon');
+
+const MINUTE_MS = 60 * 1000;
+// Long waits are slept in steps, so timers stay in range and clock changes are noticed
+const MAX_SLEEP_MS = 60 * MINUTE_MS;
+// nextCronTime gives up after this many days without a match (e.g. "0 0 31 2 *")
+const MAX_CRON_LOOKAHEAD_DAYS = 366 * 4;
+
+// Allowed values per cron field: minute, hour, day of month, month, day of week (0 and 7 = Sunday)
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were restricted; when both are, a day matching either one counts (as in cron)
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export type DaemonSchedule = { kind: 'interval'; intervalMs: number } | { kind: 'cron'; cron: CronSchedule };
+
+// "90s", "30m", "2h", "1d" or a plain number of minutes -> milliseconds (at least one minute)
+export function parseInterval(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhd]?)$/i);
+  if (!match) {
+    throw new Error(`Invalid interval "${value}". Use a number with s, m, h or d, e.g. "30m" or "2h".`);
+  }
+  const unitMs: { [unit: string]: number } = { s: 1000, m: MINUTE_MS, h: 60 * MINUTE_MS, d: 24 * 60 * MINUTE_MS, '': MINUTE_MS };
+  const intervalMs = Number(match[1]) * unitMs[match[2].toLowerCase()];
+  if (intervalMs < MINUTE_MS) {
+    throw new Error(`Invalid interval "${value}". The shortest interval is 1 minute.`);
+  }
+  return intervalMs;
+}
+
+// Standard 5-field cron expression ("*/30 7-22 * * 1-5"): *, lists, ranges and steps, evaluated in local time
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}". Use 5 fields: minute hour day-of-month month day-of-week.`);
+  }
+
+  const fields = parts.map((part, index) => {
+    const { name, min, max } = CRON_FIELDS[index];
+    const values = new Set<number>();
+
+    for (const entry of part.split(',')) {
+      const match = entry.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+      if (!match) {
+        throw new Error(`Invalid ${name} "${entry}" in cron expression "${expression}"`);
+      }
+      const [start, end] = match[1] === '*'
+        ? [min, max]
+        : match[1].includes('-')
+          ? match[1].split('-').map(Number)
+          // "5/15" means every 15 starting at 5
+          : [Number(match[1]), match[2] ? max : Number(match[1])];
+      const step = match[2] ? Number(match[2]) : 1;
+      if (start < min || end > max || start > end || step < 1) {
+        throw new Error(`Invalid ${name} "${entry}" in cron expression "${expression}" (allowed: ${min}-${max})`);
+      }
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+    return values;
+  });
+
+  // 7 is another name for Sunday
+  if (fields[4].delete(7)) {
+    fields[4].add(0);
+  }
+
+  return {
+    expression,
+    minutes: fields[0],
+    hours: fields[1],
+    daysOfMonth: fields[2],
+    months: fields[3],
+    daysOfWeek: fields[4],
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+// First minute after `after` that matches the schedule (local time)
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const time = new Date(after);
+  time.setSeconds(0, 0);
+  time.setMinutes(time.getMinutes() + 1);
+  const giveUpAt = after.getTime() + MAX_CRON_LOOKAHEAD_DAYS * 24 * 60 * MINUTE_MS;
+
+  const dayMatches = (date: Date) => {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+    if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+    return dayOfMonth && dayOfWeek;
+  };
+
+  while (time.getTime() <= giveUpAt) {
+    if (!schedule.months.has(time.getMonth() + 1) || !dayMatches(time)) {
+      time.setDate(time.getDate() + 1);
+      time.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(time.getHours())) {
+      time.setHours(time.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(time.getMinutes())) {
+      time.setMinutes(time.getMinutes() + 1, 0, 0);
+    } else {
+      return time;
+    }
+  }
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
+
+export function describeSchedule(schedule: DaemonSchedule): string {
+  return schedule.kind === 'interval'
+    ? `every ${Math.round(schedule.intervalMs / 1000)} second(s)`
+    : `on cron schedule "${schedule.cron.expression}" (local time)`;
+}
+
+// Resolves after `ms`, or early once `signal` aborts
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done);
+  });
+}
+
+// Run `job` on the schedule until `signal` aborts. Interval schedules run once right away; a run
+// never starts before the previous one finished, and runs missed meanwhile are skipped.
+// Errors from `job` are logged and don't stop the daemon.
+export async function runDaemon(job: () => Promise<void>, schedule: DaemonSchedule, signal: AbortSignal): Promise<void> {
+  log.info(`Daemon started, running ${describeSchedule(schedule)}`);
+  let nextRun = schedule.kind === 'interval' ? new Date() : nextCronTime(schedule.cron, new Date());
+
+  while (!signal.aborted) {
+    while (!signal.aborted && Date.now() < nextRun.getTime()) {
+      await sleep(Math.min(nextRun.getTime() - Date.now(), MAX_SLEEP_MS), signal);
+    }
+    if (signal.aborted) break;
+
+    const startedAt = Date.now();
+    try {
+      await job();
+    } catch (error) {
+      log.error('Scheduled run failed', error);
+    }
+
+    if (schedule.kind === 'interval') {
+      // Keep the start-to-start rhythm, skipping runs that were due while this one ran
+      const missed = Math.floor((Date.now() - startedAt) / schedule.intervalMs);
+      nextRun = new Date(startedAt + (missed + 1) * schedule.intervalMs);
+    } else {
+      nextRun = nextCronTime(schedule.cron, new Date());
+    }
+    log.info(`Next run at ${nextRun.toISOString()}`);
+  }
+
+  log.info('Daemon stopped');
+}
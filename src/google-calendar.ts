@@ -1,23 +1,192 @@
 // Google Calendar API integration
 
-import { CalendarEvent } from './types.js';
+import { randomBytes } from 'node:crypto';
+import { BatchOperation, BatchResult, CalendarEvent, CalendarProvider, FreeBusyResult } from './types.js';
+import { BRIDGE_MARKER_KEY } from './sync.js';
+import { RETRYABLE_STATUSES, backoffDelay, fetchWithRetry, sleep } from './http.js';
+import { createLogger } from './logger.js';
+import { TokenStore } from './token-store.js';
+
+const CALENDAR_API_BASE = 'https://www.googleapis.com/calendar/v3';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+const BATCH_URL = 'https://www.googleapis.com/batch/calendar/v3';
+// Google accepts up to 50 calls per Calendar batch request
+const BATCH_SIZE = 50;
+// Extra rounds for batched calls that were rate limited or hit a transient error
+const BATCH_MAX_RETRIES = 3;
+const REQUEST_TIMEOUT_MS = 30000;
+
+const log = createLogger('Google Calendar');
+
+interface BatchPartResponse {
+  status: number;
+  body: string;
+}
+
+// Parse a multipart/mixed batch response into per-call responses keyed by Content-ID
+// ("<response-item-3>" -> "item-3")
+function parseBatchResponse(text: string, boundary: string): Map<string, BatchPartResponse> {
+  const parts = new Map<string, BatchPartResponse>();
+
+  for (const part of text.split(`--${boundary}`)) {
+    const trimmed = part.replace(/^\r?\n/, '');
+    if (!trimmed.trim() || trimmed.startsWith('--')) continue;
+
+    // Outer part headers, then the embedded HTTP response (status line, headers, body)
+    const [outerHeaders, ...rest] = trimmed.split(/\r?\n\r?\n/);
+    const contentId = outerHeaders.match(/^content-id:\s*<?response-([^>\r\n]+)>?/im)?.[1];
+    const statusMatch = rest[0]?.match(/^HTTP\/[\d.]+\s+(\d{3})/);
+    if (!contentId || !statusMatch) continue;
 
-export class GoogleCalendarClient {
+    parts.set(contentId.trim(), {
+      status: Number(statusMatch[1]),
+      body: rest.slice(1).join('\r\n\r\n').trim(),
+    });
+  }
+
+  return parts;
+}
+
+// Where the refresh token in use came from
+export type TokenSource = 'token store' | 'environment' | 'authorization';
+
+export interface GoogleAuthStatus {
+  authenticated: boolean;
+  source: TokenSource | null;
+  tokenStorePath: string | null;
+  tokenStoreEncrypted: boolean;
+  // ISO timestamp of the cached access token's expiry, or null when none is cached
+  accessTokenExpiresAt: string | null;
+  scope: string | null;
+}
+
+export class GoogleCalendarClient implements CalendarProvider {
+  readonly displayName = 'Google Calendar';
   private clientId: string;
   private clientSecret: string;
   private refreshToken: string;
   private accessToken: string | null = null;
+  private accessTokenExpiresAt = 0;
+  private scope: string | null = null;
+  private tokenSource: TokenSource | null;
   private redirectUri: string;
-
-  constructor(clientId: string, clientSecret: string, refreshToken: string, redirectUri?: string) {
+  private defaultCalendarId: string;
+  private tokenStore: TokenStore | null;
+
+  constructor(
+    clientId: string,
+    clientSecret: string,
+    refreshToken: string,
+    redirectUri?: string,
+    calendarId?: string,
+    tokenStore?: TokenStore
+  ) {
     this.clientId = clientId;
     this.clientSecret = clientSecret;
     this.refreshToken = refreshToken;
+    this.tokenSource = refreshToken ? 'environment' : null;
     this.redirectUri = redirectUri || 'http://localhost:3000/oauth2callback';
+    this.defaultCalendarId = calendarId || 'primary';
+    this.tokenStore = tokenStore || null;
   }
 
-  // Generate OAuth URL for user to authorize
-  getAuthUrl(): string {
+  // Load tokens saved by an earlier authorization. Stored tokens take precedence over
+  // GOOGLE_REFRESH_TOKEN, since they come from the most recent sign-in.
+  async loadStoredTokens(): Promise<boolean> {
+    if (!this.tokenStore) return false;
+
+    const stored = await this.tokenStore.load();
+    if (!stored?.refreshToken) return false;
+
+    this.refreshToken = stored.refreshToken;
+    this.accessToken = stored.accessToken;
+    this.accessTokenExpiresAt = stored.accessTokenExpiresAt || 0;
+    this.scope = stored.scope || null;
+    this.tokenSource = 'token store';
+    log.info(`Loaded Google credentials from ${this.tokenStore.getPath()}`);
+    return true;
+  }
+
+  // Write the current tokens to the store (no-op without one)
+  private async persistTokens(): Promise<void> {
+    if (!this.tokenStore || !this.refreshToken) return;
+
+    await this.tokenStore.save({
+      refreshToken: this.refreshToken,
+      accessToken: this.accessToken,
+      accessTokenExpiresAt: this.accessTokenExpiresAt,
+      scope: this.scope || undefined,
+      savedAt: new Date().toISOString(),
+    });
+  }
+
+  getAuthStatus(): GoogleAuthStatus {
+    const hasAccessToken = !!this.accessToken && this.accessTokenExpiresAt > 0;
+    return {
+      authenticated: !!this.refreshToken,
+      source: this.refreshToken ? this.tokenSource : null,
+      tokenStorePath: this.tokenStore ? this.tokenStore.getPath() : null,
+      tokenStoreEncrypted: this.tokenStore ? this.tokenStore.isEncrypted() : false,
+      accessTokenExpiresAt: hasAccessToken ? new Date(this.accessTokenExpiresAt).toISOString() : null,
+      scope: this.scope,
+    };
+  }
+
+  // Revoke the refresh token with Google (which also invalidates its access tokens) and forget it,
+  // locally and in the token store. Returns whether Google confirmed the revocation.
+  async logout(): Promise<{ revoked: boolean; message: string }> {
+    const token = this.refreshToken || this.accessToken;
+    let revoked = false;
+    let message = 'No Google credentials were stored.';
+
+    if (token) {
+      // Local credentials are removed below whatever happens here, so signing out never gets stuck
+      try {
+        const response = await fetchWithRetry(REVOKE_URL, () => ({
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({ token })
+        }), { label: 'Google OAuth', timeoutMs: REQUEST_TIMEOUT_MS });
+
+        revoked = response.ok;
+        // 400 invalid_token means it was already revoked or expired
+        message = response.ok
+          ? 'Google access was revoked.'
+          : `Google did not confirm the revocation (${response.status} - ${await response.text()}); the credentials were removed locally anyway.`;
+      } catch (error) {
+        log.warn('Could not reach Google to revoke the token', error instanceof Error ? error.message : error);
+        message = `Google could not be reached to revoke access (${error instanceof Error ? error.message : error}); the credentials were removed locally anyway.`;
+      }
+    }
+
+    this.refreshToken = '';
+    this.scope = null;
+    this.tokenSource = null;
+    this.invalidateAccessToken();
+    await this.tokenStore?.clear();
+
+    return { revoked, message };
+  }
+
+  // Calendar used when a method isn't given an explicit calendar ID (GOOGLE_CALENDAR_ID)
+  getDefaultCalendarId(): string {
+    return this.defaultCalendarId;
+  }
+
+  // Events collection URL for a calendar, optionally pointing at a single event
+  private eventsUrl(calendarId: string, eventId?: string): string {
+    const base = `${CALENDAR_API_BASE}/calendars/${encodeURIComponent(calendarId)}/events`;
+    return eventId ? `${base}/${encodeURIComponent(eventId)}` : base;
+  }
+
+  getRedirectUri(): string {
+    return this.redirectUri;
+  }
+
+  // Generate OAuth URL for user to authorize. The loopback sign-in adds a state value and a PKCE
+  // challenge (S256); the manual copy-the-code flow uses neither.
+  getAuthUrl(options: { state?: string; codeChallenge?: string } = {}): string {
     const scopes = [
       'https://www.googleapis.com/auth/calendar',
       'https://www.googleapis.com/auth/calendar.events'
@@ -31,186 +200,386 @@ export class GoogleCalendarClient {
       access_type: 'offline',
       prompt: 'consent'
     });
+    if (options.state) {
+      params.set('state', options.state);
+    }
+    if (options.codeChallenge) {
+      params.set('code_challenge', options.codeChallenge);
+      params.set('code_challenge_method', 'S256');
+    }
 
     return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
   }
 
-  // Exchange authorization code for tokens
-  async exchangeCodeForTokens(code: string): Promise<{ access_token: string; refresh_token: string }> {
-    const response = await fetch('https://oauth2.googleapis.com/token', {
+  // POST to the OAuth token endpoint and remember the access token it returns, with its expiry
+  private async requestTokens(params: Record<string, string>, failureMessage: string): Promise<any> {
+    const response = await fetchWithRetry(TOKEN_URL, () => ({
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: new URLSearchParams({
         client_id: this.clientId,
         client_secret: this.clientSecret,
-        code: code,
-        redirect_uri: this.redirectUri,
-        grant_type: 'authorization_code'
+        ...params
       })
-    });
+    }), { label: 'Google OAuth', timeoutMs: REQUEST_TIMEOUT_MS });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Failed to exchange code for tokens: ${error}`);
+      throw new Error(`${failureMessage}: ${error}`);
     }
 
     const data = await response.json();
+    this.accessToken = data.access_token || null;
+    // Refresh a minute early so a token never expires mid-request
+    this.accessTokenExpiresAt = Date.now() + ((data.expires_in ?? 3600) - 60) * 1000;
+    if (data.scope) {
+      this.scope = data.scope;
+    }
+    return data;
+  }
+
+  // Exchange authorization code for tokens
+  // `stored` tells whether the tokens were written to the token store
+  async exchangeCodeForTokens(code: string, codeVerifier?: string): Promise<{ access_token: string; refresh_token: string; stored: boolean }> {
+    const data = await this.requestTokens({
+      code: code,
+      redirect_uri: this.redirectUri,
+      grant_type: 'authorization_code',
+      ...(codeVerifier ? { code_verifier: codeVerifier } : {})
+    }, 'Failed to exchange code for tokens');
 
     // Update internal state
-    this.accessToken = data.access_token;
     if (data.refresh_token) {
       this.refreshToken = data.refresh_token;
+      this.tokenSource = 'authorization';
+    }
+
+    let stored = false;
+    try {
+      await this.persistTokens();
+      stored = !!this.tokenStore;
+    } catch (error) {
+      log.error('Could not save tokens to the token store', error);
     }
 
     return {
       access_token: data.access_token,
-      refresh_token: data.refresh_token
+      refresh_token: data.refresh_token,
+      stored
     };
   }
 
   // Update the refresh token
   setRefreshToken(token: string): void {
     this.refreshToken = token;
-    this.accessToken = null; // Clear access token so it gets refreshed
+    this.tokenSource = 'authorization';
+    this.invalidateAccessToken(); // Clear access token so it gets refreshed
+  }
+
+  private invalidateAccessToken(): void {
+    this.accessToken = null;
+    this.accessTokenExpiresAt = 0;
   }
 
   private async getAccessToken(): Promise<string> {
-    if (this.accessToken) return this.accessToken;
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt) return this.accessToken;
 
     if (!this.refreshToken) {
-      throw new Error('No refresh token available. Please authenticate first using get_google_auth_url and set_google_auth_code tools.');
+      throw new Error('No refresh token available. Please authenticate first using the google_login tool (or get_google_auth_url and set_google_auth_code).');
     }
 
-    const response = await fetch('https://oauth2.googleapis.com/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({
-        client_id: this.clientId,
-        client_secret: this.clientSecret,
-        refresh_token: this.refreshToken,
-        grant_type: 'refresh_token'
-      })
-    });
+    await this.requestTokens({
+      refresh_token: this.refreshToken,
+      grant_type: 'refresh_token'
+    }, 'Failed to refresh access token');
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Failed to refresh access token: ${error}`);
+    // Keep the stored access token current so a restart doesn't need a refresh right away
+    try {
+      await this.persistTokens();
+    } catch (error) {
+      log.warn('Could not update the token store', error);
     }
 
-    const data = await response.json();
-    this.accessToken = data.access_token;
     if (!this.accessToken) {
       throw new Error('Failed to obtain access token from Google');
     }
     return this.accessToken;
   }
 
-  async createEvent(event: CalendarEvent) {
-    const token = await this.getAccessToken();
-    
-    const response = await fetch(
-      'https://www.googleapis.com/calendar/v3/calendars/primary/events',
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(event)
+  // Authorized Calendar API request with retries. A 401 drops the cached access token so the
+  // retry refreshes it; errors that survive the retries are thrown.
+  // `maxRetries: 0` for requests that must not be sent twice (a lost response may hide a write that happened)
+  private async apiFetch(url: string, init: RequestInit = {}, maxRetries?: number): Promise<Response> {
+    const response = await fetchWithRetry(url, async () => ({
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        'Authorization': `Bearer ${await this.getAccessToken()}`
       }
-    );
+    }), {
+      label: 'Google Calendar API',
+      timeoutMs: REQUEST_TIMEOUT_MS,
+      maxRetries,
+      // Quota errors come back as 403 with reason rateLimitExceeded / userRateLimitExceeded
+      isRetryable: (response, bodyText) => response.status === 403 && /rateLimitExceeded/i.test(bodyText),
+      onUnauthorized: () => this.invalidateAccessToken()
+    });
 
     if (!response.ok) {
-      throw new Error(`Google Calendar API error: ${response.status}`);
+      const errorText = await response.text();
+      throw new Error(`Google Calendar API error: ${response.status} - ${errorText}`);
     }
 
+    return response;
+  }
+
+  async createEvent(event: CalendarEvent, calendarId: string = this.defaultCalendarId) {
+    // A retried POST could create the same event twice
+    const response = await this.apiFetch(this.eventsUrl(calendarId), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event)
+    }, 0);
+
     return await response.json();
   }
 
-  async listEvents(timeMin: string, timeMax: string, maxResults?: number) {
-    const token = await this.getAccessToken();
+  // Events between two times in start order, up to maxResults (follows nextPageToken; every event when omitted)
+  async listEvents(timeMin: string, timeMax: string, maxResults?: number, calendarId: string = this.defaultCalendarId) {
+    const items: any[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const url = new URL(this.eventsUrl(calendarId));
+      url.searchParams.append('timeMin', timeMin);
+      url.searchParams.append('timeMax', timeMax);
+      url.searchParams.append('singleEvents', 'true');
+      url.searchParams.append('orderBy', 'startTime');
+      if (maxResults) {
+        url.searchParams.append('maxResults', (maxResults - items.length).toString());
+      }
+      if (pageToken) url.searchParams.append('pageToken', pageToken);
 
-    const url = new URL('https://www.googleapis.com/calendar/v3/calendars/primary/events');
-    url.searchParams.append('timeMin', timeMin);
-    url.searchParams.append('timeMax', timeMax);
-    url.searchParams.append('singleEvents', 'true');
-    url.searchParams.append('orderBy', 'startTime');
-    if (maxResults) {
-      url.searchParams.append('maxResults', maxResults.toString());
-    }
+      const response = await this.apiFetch(url.toString());
+      const data = await response.json();
+      items.push(...(data.items || []));
+      pageToken = data.nextPageToken;
+    } while (pageToken && (!maxResults || items.length < maxResults));
+
+    return { items };
+  }
 
-    const response = await fetch(url.toString(), {
-      headers: { 'Authorization': `Bearer ${token}` }
+  // List every event tagged by the bridge (follows nextPageToken until exhausted)
+  async listBridgedEvents(
+    timeMin?: string,
+    timeMax?: string,
+    calendarId: string = this.defaultCalendarId,
+    markerKey: string = BRIDGE_MARKER_KEY
+  ): Promise<any[]> {
+    const items: any[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const url = new URL(this.eventsUrl(calendarId));
+      url.searchParams.append('privateExtendedProperty', `${markerKey}=true`);
+      url.searchParams.append('singleEvents', 'true');
+      url.searchParams.append('maxResults', '250');
+      if (timeMin) url.searchParams.append('timeMin', timeMin);
+      if (timeMax) url.searchParams.append('timeMax', timeMax);
+      if (pageToken) url.searchParams.append('pageToken', pageToken);
+
+      const response = await this.apiFetch(url.toString());
+      const data = await response.json();
+      items.push(...(data.items || []));
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    return items;
+  }
+
+  async updateEvent(eventId: string, updates: Partial<CalendarEvent>, calendarId: string = this.defaultCalendarId) {
+    const response = await this.apiFetch(this.eventsUrl(calendarId, eventId), {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates)
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Google Calendar API error: ${response.status} - ${errorText}`);
-    }
+    return await response.json();
+  }
+
+  async deleteEvent(eventId: string, calendarId: string = this.defaultCalendarId) {
+    await this.apiFetch(this.eventsUrl(calendarId, eventId), { method: 'DELETE' });
+
+    // DELETE returns 204 No Content on success
+    return { success: true, message: 'Event deleted successfully' };
+  }
 
+  async getEvent(eventId: string, calendarId: string = this.defaultCalendarId) {
+    const response = await this.apiFetch(this.eventsUrl(calendarId, eventId));
     return await response.json();
   }
 
-  async updateEvent(eventId: string, updates: Partial<CalendarEvent>) {
-    const token = await this.getAccessToken();
+  // List the calendars on the user's calendar list (follows nextPageToken until exhausted)
+  async listCalendars(): Promise<any[]> {
+    const items: any[] = [];
+    let pageToken: string | undefined;
 
-    const response = await fetch(
-      `https://www.googleapis.com/calendar/v3/calendars/primary/events/${eventId}`,
-      {
-        method: 'PATCH',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(updates)
-      }
-    );
+    do {
+      const url = new URL(`${CALENDAR_API_BASE}/users/me/calendarList`);
+      url.searchParams.append('maxResults', '250');
+      if (pageToken) url.searchParams.append('pageToken', pageToken);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Google Calendar API error: ${response.status} - ${errorText}`);
+      const response = await this.apiFetch(url.toString());
+      const data = await response.json();
+      items.push(...(data.items || []));
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    return items;
+  }
+
+  // Busy periods of up to 50 calendars (Google's per-query limit) via the freeBusy endpoint
+  async getFreeBusy(timeMin: string, timeMax: string, calendarIds: string[]): Promise<FreeBusyResult> {
+    const response = await this.apiFetch(`${CALENDAR_API_BASE}/freeBusy`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ timeMin, timeMax, items: calendarIds.map(id => ({ id })) })
+    });
+
+    const data = await response.json();
+    const result: FreeBusyResult = {};
+    for (const calendarId of calendarIds) {
+      const calendar = data.calendars?.[calendarId];
+      result[calendarId] = {
+        busy: calendar?.busy || [],
+        ...(calendar?.errors?.length ? { error: calendar.errors.map((error: any) => error.reason).join(', ') } : {}),
+      };
     }
+    return result;
+  }
+
+  // Create a secondary calendar (it is added to the user's calendar list automatically)
+  async createCalendar(summary: string, description?: string, timeZone?: string) {
+    // A retried POST could create the same calendar twice
+    const response = await this.apiFetch(`${CALENDAR_API_BASE}/calendars`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ summary, description, timeZone })
+    }, 0);
 
     return await response.json();
   }
 
-  async deleteEvent(eventId: string) {
-    const token = await this.getAccessToken();
+  // Path (relative to the API host) and body of one batched call
+  private describeBatchCall(operation: BatchOperation): { method: string; path: string; body?: string } {
+    const calendarId = operation.calendarId || this.defaultCalendarId;
+    const eventsPath = new URL(this.eventsUrl(calendarId, operation.kind === 'insert' ? undefined : operation.eventId)).pathname;
+
+    switch (operation.kind) {
+      case 'insert':
+        return { method: 'POST', path: eventsPath, body: JSON.stringify(operation.event) };
+      case 'patch':
+        return { method: 'PATCH', path: eventsPath, body: JSON.stringify(operation.updates) };
+      case 'delete':
+        return { method: 'DELETE', path: eventsPath };
+    }
+  }
 
-    const response = await fetch(
-      `https://www.googleapis.com/calendar/v3/calendars/primary/events/${eventId}`,
-      {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      }
-    );
+  // Send one multipart/mixed batch request (at most BATCH_SIZE calls); results keyed by operation index
+  private async sendBatch(operations: Array<{ index: number; operation: BatchOperation }>): Promise<Map<number, BatchPartResponse>> {
+    const boundary = `batch_${randomBytes(12).toString('hex')}`;
+    const body = operations.map(({ index, operation }) => {
+      const call = this.describeBatchCall(operation);
+      return [
+        `--${boundary}`,
+        'Content-Type: application/http',
+        `Content-ID: <item-${index}>`,
+        '',
+        `${call.method} ${call.path} HTTP/1.1`,
+        ...(call.body !== undefined ? ['Content-Type: application/json', '', call.body] : ['']),
+      ].join('\r\n');
+    }).join('\r\n') + `\r\n--${boundary}--\r\n`;
+
+    // Never resent as a whole: a batch whose response was lost may already have created its events
+    const response = await this.apiFetch(BATCH_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+      body
+    }, 0);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Google Calendar API error: ${response.status} - ${errorText}`);
+    const responseBoundary = response.headers.get('content-type')?.match(/boundary=("?)([^";]+)\1/)?.[2];
+    if (!responseBoundary) {
+      throw new Error('Google Calendar batch response is not multipart/mixed');
     }
 
-    // DELETE returns 204 No Content on success
-    return { success: true, message: 'Event deleted successfully' };
+    const parts = parseBatchResponse(await response.text(), responseBoundary);
+    const results = new Map<number, BatchPartResponse>();
+    for (const { index } of operations) {
+      const part = parts.get(`item-${index}`);
+      if (part) results.set(index, part);
+    }
+    return results;
   }
 
-  async getEvent(eventId: string) {
-    const token = await this.getAccessToken();
+  // Run inserts, patches and deletes through Google's batch endpoint, BATCH_SIZE calls per request.
+  // Calls that were rate limited or failed transiently are retried in later rounds with backoff;
+  // inserts only when rate limited, since after a 5xx the event may exist anyway.
+  async batch(operations: BatchOperation[]): Promise<BatchResult[]> {
+    const results: BatchResult[] = new Array(operations.length);
+    let pending = operations.map((operation, index) => ({ index, operation }));
+
+    for (let round = 0; pending.length > 0; round++) {
+      if (round > 0) {
+        const delay = backoffDelay(round, 1000, 30000);
+        log.warn(`Retrying ${pending.length} batched call(s) in ${Math.round(delay)}ms (round ${round}/${BATCH_MAX_RETRIES})`);
+        await sleep(delay);
+      }
+
+      const retry: typeof pending = [];
+      for (let start = 0; start < pending.length; start += BATCH_SIZE) {
+        const chunk = pending.slice(start, start + BATCH_SIZE);
+        log.debug(`Sending batch of ${chunk.length} call(s)`);
+
+        let responses: Map<number, BatchPartResponse>;
+        try {
+          responses = await this.sendBatch(chunk);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          for (const { index } of chunk) {
+            results[index] = { ok: false, error: message };
+          }
+          continue;
+        }
 
-    const response = await fetch(
-      `https://www.googleapis.com/calendar/v3/calendars/primary/events/${eventId}`,
-      {
-        headers: { 'Authorization': `Bearer ${token}` }
+        for (const item of chunk) {
+          const part = responses.get(item.index);
+          if (!part) {
+            results[item.index] = { ok: false, error: 'No response for this call in the Google Calendar batch response' };
+            continue;
+          }
+
+          if (part.status >= 200 && part.status < 300) {
+            // One unreadable part fails on its own; the other results of the batch still count
+            try {
+              results[item.index] = { ok: true, data: part.body ? JSON.parse(part.body) : { success: true } };
+            } catch {
+              results[item.index] = { ok: false, error: `Unreadable Google Calendar batch response (${part.status}): ${part.body.substring(0, 200)}` };
+            }
+            continue;
+          }
+
+          results[item.index] = { ok: false, error: `Google Calendar API error: ${part.status} - ${part.body}` };
+          const rateLimited = part.status === 429 || (part.status === 403 && /rateLimitExceeded/i.test(part.body));
+          const retryable = rateLimited || (item.operation.kind !== 'insert' && RETRYABLE_STATUSES.has(part.status));
+          if (retryable && round < BATCH_MAX_RETRIES) {
+            retry.push(item);
+          }
+        }
       }
-    );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Google Calendar API error: ${response.status} - ${errorText}`);
+      pending = retry;
     }
 
-    return await response.json();
+    return results;
   }
 }
@@ -0,0 +1,148 @@
+// Shared HTTP request layer: retries with exponential backoff and jitter, Retry-After,
+// 401 re-authentication, and client-side throttling for rate-limited APIs
+
+import { createLogger } from './logger.js';
+
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+// Transient statuses worth retrying
+export const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export interface RetryOptions {
+  // Label used in log lines, e.g. "Canvas API"
+  label: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Per-attempt timeout; the request is aborted (and retried) after this long
+  timeoutMs?: number;
+  // Extra check for responses that aren't in RETRYABLE_STATUSES, e.g. Google's rateLimitExceeded 403
+  isRetryable?: (response: Response, bodyText: string) => boolean;
+  // Called once on a 401 before retrying (e.g. to drop a cached access token)
+  onUnauthorized?: () => void | Promise<void>;
+  throttle?: RateLimitThrottle;
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Delay from a Retry-After header (seconds or HTTP date), or null if absent/unparseable
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter: random delay in [0, min(max, base * 2^attempt)]
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+// Slows requests down as an API's remaining rate-limit budget runs low.
+// Canvas reports its budget in X-Rate-Limit-Remaining (a leaky bucket that starts around 700).
+export class RateLimitThrottle {
+  private header: string;
+  private threshold: number;
+  private maxDelayMs: number;
+  private remaining: number | null = null;
+
+  constructor(header: string, threshold: number, maxDelayMs: number) {
+    this.header = header;
+    this.threshold = threshold;
+    this.maxDelayMs = maxDelayMs;
+  }
+
+  observe(response: Response): void {
+    const value = Number(response.headers.get(this.header));
+    if (response.headers.has(this.header) && Number.isFinite(value)) {
+      this.remaining = value;
+    }
+  }
+
+  // Wait longer the closer the budget is to empty; no wait above the threshold
+  async wait(label: string): Promise<void> {
+    if (this.remaining === null || this.remaining >= this.threshold) return;
+
+    const pressure = (this.threshold - Math.max(0, this.remaining)) / this.threshold;
+    const delay = Math.round(pressure * this.maxDelayMs);
+    createLogger(label).warn(`Rate limit budget low (${this.remaining} remaining), waiting ${delay}ms`);
+    await sleep(delay);
+  }
+}
+
+// fetch() with retries. `init` is rebuilt on every attempt, so it can pick up a fresh access token.
+// Non-retryable error responses are returned to the caller as-is; network errors and timeouts are
+// rethrown after the last attempt.
+export async function fetchWithRetry(
+  url: string,
+  init: () => RequestInit | Promise<RequestInit>,
+  options: RetryOptions
+): Promise<Response> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const log = createLogger(options.label);
+  let reauthenticated = false;
+
+  for (let attempt = 0; ; attempt++) {
+    await options.throttle?.wait(options.label);
+
+    // Built before the timer starts, so a failing init() (e.g. a token refresh) leaves no timer behind
+    const requestInit = await init();
+    const controller = new AbortController();
+    const timeoutId = options.timeoutMs
+      ? setTimeout(() => controller.abort(), options.timeoutMs)
+      : undefined;
+    let response: Response;
+    try {
+      response = await fetch(url, { ...requestInit, signal: controller.signal });
+    } catch (error) {
+      clearTimeout(timeoutId);
+      if (attempt >= maxRetries) throw error;
+
+      const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      const reason = error instanceof Error && error.name === 'AbortError' ? `timeout after ${options.timeoutMs}ms` : String(error);
+      log.warn(`Request failed (${reason}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+      await sleep(delay);
+      continue;
+    }
+    clearTimeout(timeoutId);
+    options.throttle?.observe(response);
+    log.trace(`${requestInit.method || 'GET'} ${url} -> ${response.status}`);
+
+    if (response.status === 401 && options.onUnauthorized && !reauthenticated) {
+      log.info(`401 Unauthorized, re-authenticating and retrying`);
+      reauthenticated = true;
+      await response.arrayBuffer().catch(() => undefined);
+      await options.onUnauthorized();
+      continue;
+    }
+
+    if (response.ok || attempt >= maxRetries) {
+      return response;
+    }
+
+    let retryable = RETRYABLE_STATUSES.has(response.status);
+    if (!retryable && options.isRetryable) {
+      const bodyText = await response.clone().text();
+      retryable = options.isRetryable(response, bodyText);
+    }
+    if (!retryable) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    const delay = retryAfter !== null ? Math.min(retryAfter, maxDelayMs) : backoffDelay(attempt, baseDelayMs, maxDelayMs);
+    log.warn(`HTTP ${response.status}, retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,341 @@
+// RFC 5545 iCalendar helpers: export of Canvas items, plus the line-level
+// formatting and parsing shared with the CalDAV provider
+
+import {
+  DEFAULT_EVENT_LAYOUTS,
+  DEFAULT_REMINDER_MINUTES,
+  EventLayout,
+  ITEM_TYPE_INFO,
+  describeQuizDetails,
+  describeSubmissionStatus,
+  getEventSpan,
+} from './sync.js';
+import {
+  convertToTimezone,
+  getTimeZoneAbbreviation,
+  getTimeZoneOffsetMinutes,
+} from './timezone.js';
+
+const PRODID = '-//canvas-calendar-bridge//Canvas Deadlines//EN';
+const UID_DOMAIN = 'canvas-calendar-bridge';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IcsExportOptions {
+  timeZone: string;
+  calendarName?: string;
+  // Used for DTSTAMP; defaults to the current time
+  now?: Date;
+  // Event layout per item type, as in sync_to_calendar (default: DEFAULT_EVENT_LAYOUTS)
+  eventLayouts?: { [itemType: string]: EventLayout };
+}
+
+export interface IcsProperty {
+  name: string;
+  params: { [key: string]: string };
+  value: string;
+}
+
+export interface IcsComponent {
+  type: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+// Escape a TEXT value (RFC 5545 section 3.3.11)
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// Reverse of escapeText
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Fold a content line to at most 75 octets per line (RFC 5545 section 3.1),
+// never splitting a multi-byte UTF-8 character
+export function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // The first line may hold 75 octets; continuation lines lose one to the leading space
+  let limit = 75;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+// 20251108T045959Z
+export function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// "2025-11-07T23:59:59" -> "20251107T235959"
+export function formatLocal(datetime: string): string {
+  return datetime.replace(/[-:]/g, '');
+}
+
+// +0530 / -0500
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  const mins = String(abs % 60).padStart(2, '0');
+  return `${sign}${hours}${mins}`;
+}
+
+// -P1D / -PT1H / -PT15M
+export function formatTrigger(minutesBefore: number): string {
+  if (minutesBefore % (24 * 60) === 0) return `-P${minutesBefore / (24 * 60)}D`;
+  if (minutesBefore % 60 === 0) return `-PT${minutesBefore / 60}H`;
+  return `-PT${minutesBefore}M`;
+}
+
+// Minutes before the event for a relative TRIGGER such as "-P1D", "-PT1H30M" or "-P1DT2H"
+export function parseTrigger(value: string): number | null {
+  const match = value.match(/^-P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => Number(part || 0));
+  return weeks * 7 * 24 * 60 + days * 24 * 60 + hours * 60 + minutes + Math.round(seconds / 60);
+}
+
+// Split a content line ("DTSTART;TZID=America/New_York:20251107T235959") into name, params and value.
+// The value starts at the first colon outside a quoted parameter value.
+function parseContentLine(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      valueStart = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const [name, ...rawParams] = line.substring(0, valueStart).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  if (!name) return null;
+
+  const params: { [key: string]: string } = {};
+  for (const rawParam of rawParams) {
+    const equals = rawParam.indexOf('=');
+    if (equals === -1) continue;
+    params[rawParam.substring(0, equals).toUpperCase()] = rawParam.substring(equals + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.substring(valueStart + 1) };
+}
+
+// Parse an iCalendar document into its top-level components (usually a single VCALENDAR).
+// Unfolds continuation lines first; property values are left escaped (see unescapeText).
+export function parseIcs(text: string): IcsComponent[] {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const roots: IcsComponent[] = [];
+  const stack: IcsComponent[] = [];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      const component: IcsComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+      if (stack.length > 0) {
+        stack[stack.length - 1].components.push(component);
+      } else {
+        roots.push(component);
+      }
+      stack.push(component);
+    } else if (property.name === 'END') {
+      stack.pop();
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  return roots;
+}
+
+// Build a VTIMEZONE describing every UTC offset change between the start of the first year and
+// the end of the last year covered by the export. Transitions are found by scanning the offset day
+// by day and bisecting to the minute, so any IANA zone the runtime knows works without tz data files.
+export function buildVTimezone(timeZone: string, rangeStart: Date, rangeEnd: Date): string[] {
+  const scanStart = Date.UTC(rangeStart.getUTCFullYear(), 0, 1);
+  const scanEnd = Date.UTC(rangeEnd.getUTCFullYear() + 1, 0, 1);
+
+  const offsetAt = (time: number) => getTimeZoneOffsetMinutes(new Date(time), timeZone);
+
+  const initialOffset = offsetAt(scanStart);
+  const transitions: Array<{ at: number; from: number; to: number }> = [];
+  let previousOffset = initialOffset;
+
+  for (let time = scanStart + DAY_MS; time <= scanEnd; time += DAY_MS) {
+    const offset = offsetAt(time);
+    if (offset === previousOffset) continue;
+
+    // Bisect between the last day with the old offset and this one
+    let low = time - DAY_MS;
+    let high = time;
+    while (high - low > 60 * 1000) {
+      const mid = low + Math.floor((high - low) / 2 / 60000) * 60000;
+      if (offsetAt(mid) === previousOffset) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    transitions.push({ at: high, from: previousOffset, to: offset });
+    previousOffset = offset;
+  }
+
+  // Wall-clock onset of an observance, expressed in the offset in effect before it (TZOFFSETFROM)
+  const onset = (at: number, fromOffset: number) => formatUtc(new Date(at + fromOffset * 60 * 1000)).replace('Z', '');
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const standardOffset = Math.min(initialOffset, ...transitions.map(transition => transition.to));
+
+  const observance = (dtstart: string, at: number, from: number, to: number) => {
+    const kind = to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${dtstart}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `TZNAME:${escapeText(getTimeZoneAbbreviation(new Date(at), timeZone))}`,
+      `END:${kind}`
+    );
+  };
+
+  // Observance covering everything before the first transition
+  observance('19700101T000000', scanStart, initialOffset, initialOffset);
+  for (const transition of transitions) {
+    observance(onset(transition.at, transition.from), transition.at, transition.from, transition.to);
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// Stable UID per Canvas item, so re-importing or re-subscribing updates instead of duplicating
+export function buildUid(item: any): string {
+  const courseId = item.course_id ?? item.assignment?.course_id ?? 'none';
+  return `canvas-${item.type || 'item'}-${courseId}-${item.id}@${UID_DOMAIN}`;
+}
+
+function buildEvent(item: any, timeZone: string, dtstamp: string, layout: EventLayout): string[] | null {
+  const dueAtField = item.due_at || item.assignment?.due_at;
+  const nameField = item.title || item.name || item.assignment?.name;
+  if (!dueAtField || !nameField) return null;
+
+  const dueDate = new Date(dueAtField);
+  if (isNaN(dueDate.getTime())) return null;
+
+  // Same event span as sync_to_calendar
+  const span = getEventSpan(item, layout);
+  const due = convertToTimezone(dueAtField, timeZone);
+  const start = convertToTimezone(span.start.toISOString(), timeZone);
+  const end = convertToTimezone(span.end.toISOString(), timeZone);
+  if (!due || !start || !end) return null;
+
+  const itemInfo = ITEM_TYPE_INFO[item.type] || ITEM_TYPE_INFO['event'];
+  const pointsField = item.points_possible || item.assignment?.points_possible || 'N/A';
+  const urlField = item.html_url || item.assignment?.html_url || '';
+  const windowLines = span.layout !== 'deadline' ? `Opens: ${start.readable}\nCloses: ${end.readable}\n` : '';
+  const quizLines = describeQuizDetails(item).map(line => `${line}\n`).join('');
+  const description = `${itemInfo.label}\n\n${windowLines}Due: ${due.readable}\nPoints: ${pointsField}\n${quizLines}Course: ${item.context_name || 'N/A'}\nStatus: ${describeSubmissionStatus(item)}\n\nLink: ${urlField}`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${buildUid(item)}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART;TZID=${timeZone}:${formatLocal(start.datetime)}`,
+    `DTEND;TZID=${timeZone}:${formatLocal(end.datetime)}`,
+    `SUMMARY:${escapeText(`${itemInfo.emoji} ${nameField}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `TRANSP:${span.layout === 'availability' ? 'TRANSPARENT' : 'OPAQUE'}`,
+  ];
+  if (item.context_name) {
+    lines.push(`CATEGORIES:${escapeText(item.context_name)}`);
+  }
+  if (urlField) {
+    lines.push(`URL:${urlField}`);
+  }
+
+  // Reminders count back from the due time; a window starts earlier, so its alarms are absolute times
+  for (const minutes of DEFAULT_REMINDER_MINUTES) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(nameField)}`,
+      span.layout === 'deadline'
+        ? `TRIGGER:${formatTrigger(minutes)}`
+        : `TRIGGER;VALUE=DATE-TIME:${formatUtc(new Date(dueDate.getTime() - minutes * 60 * 1000))}`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Render Canvas items (as returned by CanvasClient.getUpcomingAssignments) as an .ics document.
+// Items without a usable due date are left out.
+export function buildIcsCalendar(items: any[], options: IcsExportOptions): { ics: string; eventCount: number } {
+  const { timeZone } = options;
+  const dtstamp = formatUtc(options.now || new Date());
+
+  const events: string[][] = [];
+  // Every start, end and due time the events use, so VTIMEZONE covers the years they fall in
+  const eventTimes: number[] = [];
+  for (const item of items) {
+    const layout = (options.eventLayouts || DEFAULT_EVENT_LAYOUTS)[item.type] || 'deadline';
+    const event = buildEvent(item, timeZone, dtstamp, layout);
+    if (event) {
+      events.push(event);
+      const span = getEventSpan(item, layout);
+      eventTimes.push(span.start.getTime(), span.end.getTime(), new Date(item.due_at || item.assignment?.due_at).getTime());
+    }
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName || 'Canvas Deadlines')}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+  ];
+
+  if (events.length > 0) {
+    lines.push(...buildVTimezone(timeZone, new Date(Math.min(...eventTimes)), new Date(Math.max(...eventTimes))));
+    for (const event of events) {
+      lines.push(...event);
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return {
+    ics: lines.map(foldLine).join('\r\n') + '\r\n',
+    eventCount: events.length,
+  };
+}
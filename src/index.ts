@@ -3,90 +3,581 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import dotenv from 'dotenv';
-import { CanvasClient } from './canvas.js';
+import { randomUUID } from 'node:crypto';
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CanvasClient, PERSONAL_COURSE_ID, PLANNABLE_TYPES } from './canvas.js';
+import { CalDavClient } from './caldav.js';
 import { GoogleCalendarClient } from './google-calendar.js';
+import { buildIcsCalendar } from './ics.js';
+import { runCli, ToolResult } from './cli.js';
+import { parseInterval } from './daemon.js';
+import { acquireLockFile, getDefaultLockPath, LockHandle } from './lock-file.js';
+import { createLogger, withLogContext } from './logger.js';
+import { runLoopbackAuthorization } from './oauth-loopback.js';
+import { CanvasResources, RESOURCE_TEMPLATES } from './resources.js';
+import { SyncRuleSet, describeRule, loadSyncRules, renderTemplate, resolveRules } from './rules.js';
+import {
+  CONFLICT_POLICIES,
+  ConflictPolicy,
+  DEFAULT_MINUTES_PER_POINT,
+  WorkingHours,
+  findFreeSlots,
+  formatClock,
+  formatMinutes,
+  normalizeBusy,
+  parseClockTime,
+  parseTimeArgument,
+  parseWeekdays,
+  planStudyBlocks,
+  roundUpToMinutes,
+  subtractSlots,
+} from './scheduling.js';
+import {
+  JournalChange,
+  SyncJournal,
+  SyncRun,
+  buildUndoOperation,
+  capturePriorValues,
+  snapshotEvent,
+} from './sync-journal.js';
+import { TokenStore } from './token-store.js';
+import {
+  BatchOperation,
+  BatchResult,
+  BusyInterval,
+  CalendarProvider,
+  CourseFetchWarning,
+  CourseFilter,
+  PlannableType,
+  SyncPlanEntry,
+} from './types.js';
+import {
+  DEFAULT_EVENT_LAYOUTS,
+  DEFAULT_REMINDER_MINUTES,
+  EVENT_LAYOUTS,
+  EventLayout,
+  ITEM_TYPE_INFO,
+  buildCourseCalendarDescription,
+  buildOriginProperties,
+  computeFingerprint,
+  getOriginKey,
+  readFingerprint,
+  STALE_EVENT_POLICIES,
+  SUBMITTED_COLOR_ID,
+  SUBMITTED_ITEM_POLICIES,
+  StaleEventPolicy,
+  SubmittedItemPolicy,
+  buildStaleMarkUpdate,
+  describeEventChanges,
+  describeQuizDetails,
+  describeSubmissionStatus,
+  getEventSpan,
+  getReminderOffsets,
+  isMarkedStale,
+  parseEventLayouts,
+  readCourseCalendarId,
+  readOrigin,
+  STUDY_BLOCK_MARKER_KEY,
+  buildStudyBlockProperties,
+  readStudyBlockCourseId,
+} from './sync.js';
+import {
+  FALLBACK_TIMEZONE,
+  convertToTimezone,
+  getZonedDayDifference,
+  isValidTimeZone,
+} from './timezone.js';
 
 // Load environment variables
 dotenv.config();
 
-// Simple helper to convert Canvas UTC dates to EST
-// Canvas returns dates like "2025-11-07T06:59:00Z" (UTC)
-// We need to display/create events in EST (America/New_York)
-function convertToEST(utcDateString: string | null | undefined): { datetime: string; readable: string } | null {
-  // Handle null/undefined dates
-  if (!utcDateString) {
-    return null;
-  }
-
-  try {
-    // Parse the UTC date
-    const date = new Date(utcDateString);
-
-    // Check if date is valid
-    if (isNaN(date.getTime())) {
-      console.error(`Invalid date: ${utcDateString}`);
-      return null;
-    }
+const log = createLogger('server');
+const timezoneLog = createLogger('timezone');
+const assignmentsLog = createLogger('get_canvas_assignments');
+const syncLog = createLogger('sync_to_calendar');
+const studyLog = createLogger('schedule_study_blocks');
+const rulesLog = createLogger('sync_rules');
 
-    // Get the date/time components in EST using toLocaleString
-    const estDateStr = date.toLocaleString('en-US', {
-      timeZone: 'America/New_York',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false
-    });
+// A command (`sync`, `daemon`, ...) runs the CLI instead of the MCP server
+const cliArgs = process.argv.slice(2);
 
-    // Parse the formatted string (format: "MM/DD/YYYY, HH:mm:ss")
-    // Convert to: "YYYY-MM-DDTHH:mm:ss" for Google Calendar
-    const parts = estDateStr.split(', ');
-    const datePart = parts[0].split('/'); // [MM, DD, YYYY]
-    const timePart = parts[1]; // HH:mm:ss
-
-    const year = datePart[2];
-    const month = datePart[0];
-    const day = datePart[1];
-
-    const datetime = `${year}-${month}-${day}T${timePart}`;
-
-    // Also create a human-readable version
-    const readable = date.toLocaleString('en-US', {
-      timeZone: 'America/New_York',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
+// How often subscribed resources are checked for changes (CANVAS_RESOURCE_REFRESH)
+const DEFAULT_RESOURCE_REFRESH = '15m';
 
-    return { datetime, readable };
-  } catch (error) {
-    console.error('Error converting date to EST:', error, 'Input:', utcDateString);
-    return null;
-  }
-}
+// Google's freeBusy endpoint accepts at most 50 calendars per query
+const MAX_BUSY_CALENDARS = 50;
 
 // Initialize clients
 const canvasClient = new CanvasClient(
   process.env.CANVAS_API_TOKEN!,
-  process.env.CANVAS_BASE_URL!
+  process.env.CANVAS_BASE_URL!,
+  {
+    perPage: process.env.CANVAS_PER_PAGE ? parseInt(process.env.CANVAS_PER_PAGE, 10) : undefined,
+    maxPages: process.env.CANVAS_MAX_PAGES ? parseInt(process.env.CANVAS_MAX_PAGES, 10) : undefined,
+    concurrency: process.env.CANVAS_CONCURRENCY ? parseInt(process.env.CANVAS_CONCURRENCY, 10) : undefined,
+  }
 );
 
 const googleClient = new GoogleCalendarClient(
   process.env.GOOGLE_OAUTH_CLIENT_ID!,
   process.env.GOOGLE_OAUTH_CLIENT_SECRET!,
   process.env.GOOGLE_REFRESH_TOKEN || '',
-  process.env.GOOGLE_REDIRECT_URI
+  process.env.GOOGLE_REDIRECT_URI,
+  process.env.GOOGLE_CALENDAR_ID,
+  // Tokens from set_google_auth_code are saved here and loaded at startup
+  new TokenStore(process.env.GOOGLE_TOKEN_STORE, process.env.GOOGLE_TOKEN_PASSPHRASE)
 );
 
+// Calendar backend for every calendar tool and sync_to_calendar (CALENDAR_PROVIDER=google|caldav)
+function createCalendarProvider(): CalendarProvider {
+  const provider = (process.env.CALENDAR_PROVIDER || 'google').toLowerCase();
+
+  if (provider === 'google') {
+    return googleClient;
+  }
+
+  if (provider === 'caldav') {
+    if (!process.env.CALDAV_URL || !process.env.CALDAV_USERNAME) {
+      throw new Error('CALENDAR_PROVIDER=caldav requires CALDAV_URL and CALDAV_USERNAME');
+    }
+    return new CalDavClient({
+      homeUrl: process.env.CALDAV_URL,
+      username: process.env.CALDAV_USERNAME,
+      password: process.env.CALDAV_PASSWORD || '',
+      defaultCalendar: process.env.CALDAV_CALENDAR_ID,
+    });
+  }
+
+  throw new Error(`Unknown CALENDAR_PROVIDER "${provider}". Use "google" or "caldav".`);
+}
+
+const calendarProvider = createCalendarProvider();
+
+// Every sync run's calendar writes, for list_sync_runs and undo_sync
+const syncJournal = new SyncJournal(process.env.SYNC_JOURNAL_PATH);
+
+// Rules from SYNC_RULES_FILE (or reload_sync_rules), applied by sync_to_calendar; null when none are loaded
+let syncRules: SyncRuleSet | null = null;
+
+// Dry-run plans of sync_to_calendar by plan ID, until applied or expired. Course calendars the plan
+// needs are created when it's applied; until then, operations refer to them by placeholder ID.
+interface StoredSyncPlan {
+  createdAt: Date;
+  description: string;
+  // `existing` is the event as it was at planning time, for the journal
+  writes: Array<{ operation: BatchOperation; entry: SyncPlanEntry; existing?: any }>;
+  newCalendars: Array<{ placeholderId: string; courseId: number; name: string; courseName?: string; timeZone: string }>;
+}
+const syncPlans = new Map<string, StoredSyncPlan>();
+const SYNC_PLAN_TTL_MS = 60 * 60 * 1000;
+const PLANNED_CALENDAR_PREFIX = 'planned-course-calendar:';
+
+// Timezone used for readable output, event creation and day-window math.
+// Resolution order: per-call override > CALENDAR_TIMEZONE > Canvas profile time_zone > fallback
+let canvasProfileTimezone: string | null | undefined;
+
+async function resolveTimezone(override?: unknown): Promise<string> {
+  if (override) {
+    if (!isValidTimeZone(override as string)) {
+      throw new Error(`Invalid timezone "${override}". Use an IANA name such as "America/Chicago".`);
+    }
+    return override as string;
+  }
+
+  const configured = process.env.CALENDAR_TIMEZONE;
+  if (configured) {
+    if (!isValidTimeZone(configured)) {
+      throw new Error(`Invalid CALENDAR_TIMEZONE "${configured}". Use an IANA name such as "America/Chicago".`);
+    }
+    return configured;
+  }
+
+  // Look the profile up once per process; it rarely changes
+  if (canvasProfileTimezone === undefined) {
+    try {
+      const profile = await canvasClient.getProfile();
+      canvasProfileTimezone = isValidTimeZone(profile?.time_zone) ? profile.time_zone : null;
+      timezoneLog.debug(`Canvas profile time_zone: ${profile?.time_zone}`);
+    } catch (error) {
+      timezoneLog.warn('Could not read Canvas profile, using fallback', error);
+      canvasProfileTimezone = null;
+    }
+  }
+
+  return canvasProfileTimezone || FALLBACK_TIMEZONE;
+}
+
+// courseIds / excludeCourseIds tool arguments -> CourseFilter
+function readCourseFilter(args: Record<string, unknown> | undefined): CourseFilter {
+  const readIds = (value: unknown, argName: string) => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || value.some(id => !Number.isFinite(Number(id)))) {
+      throw new Error(`${argName} must be an array of Canvas course IDs`);
+    }
+    return value.map(Number);
+  };
+
+  return {
+    courseIds: readIds(args?.courseIds, 'courseIds'),
+    excludeCourseIds: readIds(args?.excludeCourseIds, 'excludeCourseIds'),
+  };
+}
+
+// Result text for google_login / set_google_auth_code. Never includes the tokens themselves.
+function describeSignIn(heading: string, receivedRefreshToken: boolean, stored: boolean): string {
+  const status = googleClient.getAuthStatus();
+  let text = heading;
+  if (!receivedRefreshToken) {
+    text += '\n\nGoogle did not return a new refresh token (this happens when access was granted before). The previous one is kept.';
+  }
+  text += stored
+    ? `\n\nCredentials were saved to ${status.tokenStorePath}${status.tokenStoreEncrypted ? ' (encrypted)' : ''} and will be loaded automatically on restart.`
+    : '\n\nWARNING: The credentials could not be saved (see the MCP logs) and only last until the server restarts.';
+  return text;
+}
+
+// Tool output section listing courses that couldn't be loaded ('' when all loaded)
+function formatCourseWarnings(warnings: CourseFetchWarning[]): string {
+  if (warnings.length === 0) return '';
+  const lines = warnings.map(warning => `• ${warning.courseName} (ID: ${warning.courseId}): ${warning.error}`);
+  return `\n\nWarning: ${warnings.length} course(s) could not be loaded and were left out:\n${lines.join('\n')}`;
+}
+
+// workingHoursStart / workingHoursEnd / workingDays tool arguments -> WorkingHours
+function readWorkingHours(args: Record<string, unknown> | undefined): WorkingHours {
+  const startMinutes = parseClockTime((args?.workingHoursStart as string) || '09:00', 'workingHoursStart');
+  const endMinutes = parseClockTime((args?.workingHoursEnd as string) || '21:00', 'workingHoursEnd');
+  if (endMinutes <= startMinutes) {
+    throw new Error('workingHoursEnd must be later than workingHoursStart');
+  }
+  if (args?.workingDays !== undefined && !Array.isArray(args.workingDays)) {
+    throw new Error('workingDays must be an array of weekdays such as ["mon", "tue"]');
+  }
+  return { startMinutes, endMinutes, days: parseWeekdays(args?.workingDays as string[] | undefined) };
+}
+
+// Busy time across calendars. Without explicit IDs, every calendar shown in the user's calendar
+// list counts, plus `alsoInclude` (e.g. the calendar being written to). Calendars that couldn't be
+// queried are reported in `errors` rather than failing the whole lookup.
+async function loadBusyTime(
+  calendarIds: string[] | undefined,
+  timeMin: Date,
+  timeMax: Date,
+  alsoInclude?: string
+): Promise<{ busy: BusyInterval[]; calendarIds: string[]; errors: string[] }> {
+  let ids = calendarIds;
+  if (!ids || ids.length === 0) {
+    const calendars = await calendarProvider.listCalendars();
+    ids = calendars.filter(calendar => calendar.selected !== false).map(calendar => calendar.id);
+    const included = !alsoInclude || ids.includes(alsoInclude)
+      || (alsoInclude === 'primary' && calendars.some(calendar => calendar.primary && ids!.includes(calendar.id)));
+    if (!included) {
+      ids.push(alsoInclude!);
+    }
+  }
+  if (ids.length > MAX_BUSY_CALENDARS) {
+    log.warn(`Only the first ${MAX_BUSY_CALENDARS} of ${ids.length} calendars are checked for busy time`);
+    ids = ids.slice(0, MAX_BUSY_CALENDARS);
+  }
+
+  const result = await calendarProvider.getFreeBusy(timeMin.toISOString(), timeMax.toISOString(), ids);
+  const busy: BusyInterval[] = [];
+  const errors: string[] = [];
+  for (const id of ids) {
+    const entry = result[id];
+    if (entry?.error) {
+      errors.push(`${id}: ${entry.error}`);
+    }
+    busy.push(...(entry?.busy || []));
+  }
+  return { busy, calendarIds: ids, errors };
+}
+
+// Tool output section listing calendars whose busy time is unknown ('' when all answered)
+function formatBusyErrors(errors: string[]): string {
+  if (errors.length === 0) return '';
+  return `\n\nWarning: busy time of ${errors.length} calendar(s) could not be read, so they were treated as free:\n${errors.map(error => `• ${error}`).join('\n')}`;
+}
+
+// Event layout per item type: defaults, then SYNC_EVENT_LAYOUTS, then the eventLayouts argument
+function readEventLayouts(args: Record<string, unknown> | undefined): { [itemType: string]: EventLayout } {
+  const layouts = { ...DEFAULT_EVENT_LAYOUTS };
+  if (process.env.SYNC_EVENT_LAYOUTS) {
+    Object.assign(layouts, parseEventLayouts(process.env.SYNC_EVENT_LAYOUTS, 'SYNC_EVENT_LAYOUTS'));
+  }
+
+  const overrides = args?.eventLayouts;
+  if (overrides !== undefined) {
+    if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+      throw new Error('eventLayouts must be an object such as {"quiz": "availability"}');
+    }
+    for (const [itemType, layout] of Object.entries(overrides)) {
+      if (!EVENT_LAYOUTS.includes(layout as EventLayout)) {
+        throw new Error(`Invalid event layout "${layout}" for ${itemType}. Use one of: ${EVENT_LAYOUTS.join(', ')}`);
+      }
+      layouts[itemType] = layout as EventLayout;
+    }
+  }
+  return layouts;
+}
+
+// onConflict argument -> ConflictPolicy
+function readConflictPolicy(value: unknown): ConflictPolicy {
+  const policy = ((value as string) || 'warn') as ConflictPolicy;
+  if (!CONFLICT_POLICIES.includes(policy)) {
+    throw new Error(`Invalid onConflict "${value}". Use one of: ${CONFLICT_POLICIES.join(', ')}`);
+  }
+  return policy;
+}
+
+// Timed events overlapping [start, end) on the given calendars, except `ignoreEventId` (the event
+// being updated). Events marked as free (transparent) and all-day events don't block time.
+async function findConflicts(start: number, end: number, calendarIds: string[], ignoreEventId?: string): Promise<any[]> {
+  const conflicts: any[] = [];
+  for (const calendarId of calendarIds) {
+    // Every event in the range; an overlap past the first page must still count
+    const events = await calendarProvider.listEvents(new Date(start).toISOString(), new Date(end).toISOString(), undefined, calendarId);
+    conflicts.push(...(events.items || []).filter((event: any) => {
+      if (event.id === ignoreEventId || event.status === 'cancelled' || event.transparency === 'transparent') {
+        return false;
+      }
+      const eventStart = Date.parse(event.start?.dateTime);
+      const eventEnd = Date.parse(event.end?.dateTime);
+      return !isNaN(eventStart) && !isNaN(eventEnd) && eventStart < end && eventEnd > start;
+    }));
+  }
+  return conflicts;
+}
+
+function formatConflicts(conflicts: any[], timezone: string): string {
+  return conflicts.map(event => {
+    const start = convertToTimezone(event.start.dateTime, timezone);
+    const end = convertToTimezone(event.end.dateTime, timezone);
+    return `• ${event.summary || 'Untitled'} (${start?.readable} - ${end?.readable}, ID: ${event.id})`;
+  }).join('\n');
+}
+
+// Check a new time range for overlaps per the onConflict policy. Throws for "refuse"; otherwise
+// returns the warning to append to the tool result ('' when there's nothing to report).
+async function checkConflicts(
+  args: Record<string, unknown> | undefined,
+  start: number,
+  end: number,
+  calendarId: string,
+  timezone: string,
+  ignoreEventId?: string
+): Promise<string> {
+  const policy = readConflictPolicy(args?.onConflict);
+  if (policy === 'ignore' || isNaN(start) || isNaN(end) || end <= start) return '';
+
+  const conflictCalendarIds = (args?.conflictCalendarIds as string[] | undefined) || [calendarId];
+  const conflicts = await findConflicts(start, end, conflictCalendarIds, ignoreEventId);
+  if (conflicts.length === 0) return '';
+
+  if (policy === 'refuse') {
+    throw new Error(`The event would overlap ${conflicts.length} event(s), nothing was changed:\n${formatConflicts(conflicts, timezone)}`);
+  }
+  return `\n\nWarning: overlaps ${conflicts.length} event(s):\n${formatConflicts(conflicts, timezone)}`;
+}
+
+// Journal entry for a successful write. The calendar ID is resolved so an undo goes to the same calendar
+// even if the default changes in between.
+function toJournalChange(operation: BatchOperation, existing: any, data: any, item: string): JournalChange {
+  const calendarId = operation.calendarId || calendarProvider.getDefaultCalendarId();
+  switch (operation.kind) {
+    case 'insert':
+      return { kind: 'created', calendarId, eventId: data?.id, item };
+    case 'patch':
+      return { kind: 'patched', calendarId, eventId: operation.eventId, item, before: capturePriorValues(existing, operation.updates) };
+    case 'delete':
+      return { kind: 'deleted', calendarId, eventId: operation.eventId, item, before: snapshotEvent(existing) };
+  }
+}
+
+// Save a run to the journal. A journal that can't be written never fails the sync itself;
+// returns the line to append to the tool result, and the run ID if there is something to undo.
+async function recordSyncRun(run: SyncRun): Promise<{ text: string; runId?: string }> {
+  try {
+    await syncJournal.record(run);
+    return run.changes.length > 0
+      ? { text: `\n\nRun ID: ${run.id} (undo with undo_sync)`, runId: run.id }
+      : { text: '' };
+  } catch (error) {
+    log.error('Could not write the sync journal', error);
+    return { text: `\n\nWarning: this run could not be recorded in the sync journal (${error instanceof Error ? error.message : error}), so undo_sync can't revert it.` };
+  }
+}
+
+// Plan section headings, and what the same action is called once applied
+const SYNC_PLAN_ACTIONS: Array<{ action: SyncPlanEntry['action']; planned: string; applied: string }> = [
+  { action: 'create', planned: 'Create', applied: 'Created' },
+  { action: 'update', planned: 'Update', applied: 'Updated' },
+  { action: 'delete', planned: 'Delete', applied: 'Deleted' },
+  { action: 'mark_stale', planned: 'Mark [Removed from Canvas]', applied: 'Marked [Removed from Canvas]' },
+  { action: 'unchanged', planned: 'Leave unchanged', applied: 'Unchanged' },
+  { action: 'skip', planned: 'Skip', applied: 'Skipped' },
+];
+
+function pruneSyncPlans() {
+  const cutoff = Date.now() - SYNC_PLAN_TTL_MS;
+  for (const [planId, plan] of syncPlans) {
+    if (plan.createdAt.getTime() < cutoff) {
+      syncPlans.delete(planId);
+    }
+  }
+}
+
+// Dry-run result: the plan as readable text, then the same plan as JSON
+function formatSyncPlan(planId: string, plan: StoredSyncPlan, entries: SyncPlanEntry[], warnings: CourseFetchWarning[]) {
+  const count = (action: SyncPlanEntry['action']) => entries.filter(entry => entry.action === action).length;
+  const expiresAt = new Date(plan.createdAt.getTime() + SYNC_PLAN_TTL_MS);
+
+  let text = `Dry run of sync to ${plan.description}. Nothing was written.\nWould create ${count('create')}, update ${count('update')}, delete ${count('delete')} and mark ${count('mark_stale')} as removed from Canvas; ${count('unchanged')} unchanged, ${count('skip')} skipped.`;
+  if (plan.newCalendars.length > 0) {
+    text += `\nWould create ${plan.newCalendars.length} course calendar(s): ${plan.newCalendars.map(calendar => calendar.name).join(', ')}`;
+  }
+  for (const { action, planned } of SYNC_PLAN_ACTIONS) {
+    const section = entries.filter(entry => entry.action === action);
+    if (section.length === 0) continue;
+    const lines = section.map(entry => {
+      const changes = (entry.changes || []).map(change => `\n    ${change}`).join('');
+      return `• ${entry.item} - ${entry.reason}${changes}`;
+    });
+    text += `\n\n${planned} ${section.length}:\n${lines.join('\n')}`;
+  }
+  text += formatCourseWarnings(warnings);
+  text += plan.writes.length > 0
+    ? `\n\nTo apply exactly this plan, call sync_to_calendar with planId "${planId}" before ${expiresAt.toISOString()}.`
+    : '\n\nNothing to apply.';
+
+  const json = {
+    planId,
+    expiresAt: expiresAt.toISOString(),
+    target: plan.description,
+    counts: Object.fromEntries(SYNC_PLAN_ACTIONS.map(({ action }) => [action, count(action)])),
+    newCalendars: plan.newCalendars.map(({ placeholderId, courseId, name }) => ({ placeholderId, courseId, name })),
+    entries,
+    warnings,
+  };
+
+  return {
+    content: [
+      { type: 'text', text },
+      { type: 'text', text: JSON.stringify(json, null, 2) },
+    ],
+    structuredContent: json,
+  };
+}
+
+// Send the writes of a dry-run plan as they were planned. Course calendars the plan needs are created
+// first (or reused if one was created since), and each write succeeds or fails on its own.
+async function applySyncPlan(planId: string) {
+  pruneSyncPlans();
+  const plan = syncPlans.get(planId);
+  if (!plan) {
+    throw new Error(`Unknown or expired planId "${planId}". Run sync_to_calendar with dryRun again.`);
+  }
+  // A plan is applied at most once
+  syncPlans.delete(planId);
+
+  const calendarIds = new Map<string, string>();
+  if (plan.newCalendars.length > 0) {
+    const calendars = await calendarProvider.listCalendars();
+    for (const calendar of plan.newCalendars) {
+      const existing = calendars.find(candidate => readCourseCalendarId(candidate) === calendar.courseId);
+      const created = existing || await calendarProvider.createCalendar(
+        calendar.name,
+        buildCourseCalendarDescription(calendar.courseId, calendar.courseName),
+        calendar.timeZone
+      );
+      calendarIds.set(calendar.placeholderId, created.id);
+    }
+  }
+
+  const startedAt = new Date();
+  const operations: BatchOperation[] = plan.writes.map(({ operation }) => ({
+    ...operation,
+    calendarId: (operation.calendarId && calendarIds.get(operation.calendarId)) || operation.calendarId,
+  }));
+  syncLog.info(`Applying plan ${planId}: ${operations.length} write(s)`);
+
+  let results: BatchResult[] = [];
+  if (operations.length > 0) {
+    try {
+      results = await calendarProvider.batch(operations);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'unknown';
+      results = operations.map(() => ({ ok: false, error: errorMessage }));
+    }
+  }
+
+  const failed: string[] = [];
+  const done = new Map<string, string[]>();
+  const changes: JournalChange[] = [];
+  results.forEach((result, index) => {
+    const { entry, existing } = plan.writes[index];
+    if (result.ok) {
+      done.set(entry.action, [...(done.get(entry.action) || []), entry.item]);
+      changes.push(toJournalChange(operations[index], existing, result.data, entry.item));
+    } else {
+      syncLog.error(`Planned ${entry.action} of "${entry.item}" failed: ${result.error}`);
+      failed.push(`${entry.item} (${entry.action} failed: ${result.error})`);
+    }
+  });
+
+  const succeeded = results.length - failed.length;
+  let text = `Applied sync plan ${planId} to ${plan.description}: ${succeeded} of ${results.length} write(s) succeeded.`;
+  for (const { action, applied } of SYNC_PLAN_ACTIONS) {
+    const items = done.get(action) || [];
+    if (items.length > 0) {
+      text += `\n\n${applied} ${items.length}:\n${items.join('\n')}`;
+    }
+  }
+  if (failed.length > 0) {
+    text += `\n\nFailed ${failed.length}:\n${failed.join('\n')}`;
+  }
+  const journal = await recordSyncRun({
+    id: randomUUID(),
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    source: 'plan',
+    description: `Applied plan ${planId} to ${plan.description}`,
+    changes,
+  });
+  text += journal.text;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+    structuredContent: {
+      planId,
+      runId: journal.runId,
+      target: plan.description,
+      succeeded,
+      applied: Object.fromEntries(done),
+      failed,
+    },
+  };
+}
+
 // Create MCP server
 const server = new Server(
   {
@@ -96,15 +587,63 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: { subscribe: true, listChanged: true },
     },
   }
 );
 
+// Canvas data as resources; changes to subscribed ones are pushed to the client
+const canvasResources = new CanvasResources(canvasClient, {
+  onUpdated: (uri) => server.sendResourceUpdated({ uri }),
+  onListChanged: () => server.sendResourceListChanged(),
+});
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+  resources: await canvasResources.list(),
+}));
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+  resourceTemplates: RESOURCE_TEMPLATES,
+}));
+
+server.setRequestHandler(ReadResourceRequestSchema, (request) =>
+  withLogContext({ tool: 'resources/read' }, async () => ({
+    contents: [await canvasResources.read(request.params.uri)],
+  }))
+);
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  await canvasResources.subscribe(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  await canvasResources.unsubscribe(request.params.uri);
+  return {};
+});
+
 // Define available tools
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: [
       // Google Calendar Authentication
+      {
+        name: 'google_login',
+        description: 'Sign in to Google Calendar: opens the Google consent page in your browser, receives the redirect on GOOGLE_REDIRECT_URI and saves the tokens. Returns once sign-in has finished',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            timeoutSeconds: {
+              type: 'number',
+              description: 'How long to wait for you to finish signing in (default: 300)',
+            },
+            openBrowser: {
+              type: 'boolean',
+              description: 'Open the consent page in the default browser (default: true). The URL is also sent as a progress message and written to the MCP logs',
+            },
+          },
+        },
+      },
       {
         name: 'get_google_auth_url',
         description: 'Get the Google OAuth authorization URL to authenticate Google Calendar access',
@@ -127,10 +666,26 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['code'],
         },
       },
+      {
+        name: 'google_auth_status',
+        description: 'Show whether Google Calendar is authenticated, where the credentials come from and where they are stored',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'google_logout',
+        description: 'Revoke Google Calendar access and delete the stored credentials',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
       // General Calendar Management
       {
         name: 'create_calendar_event',
-        description: 'Create a new event in Google Calendar (works for any type of event, not just Canvas-related)',
+        description: 'Create a new event in the configured calendar (Google Calendar or CalDAV; works for any type of event, not just Canvas-related)',
         inputSchema: {
           type: 'object',
           properties: {
@@ -152,7 +707,21 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             timezone: {
               type: 'string',
-              description: 'Timezone (default: America/New_York)',
+              description: 'IANA timezone (default: configured timezone or your Canvas profile timezone)',
+            },
+            calendarId: {
+              type: 'string',
+              description: 'Target calendar ID (default: GOOGLE_CALENDAR_ID or "primary")',
+            },
+            onConflict: {
+              type: 'string',
+              enum: ['warn', 'refuse', 'ignore'],
+              description: 'What to do if the event overlaps other events: "warn" creates the event anyway and lists the conflicts, "refuse" does not create it, "ignore" skips the check (default: warn)',
+            },
+            conflictCalendarIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Calendars to check for overlapping events (default: the target calendar)',
             },
           },
           required: ['title', 'startTime', 'endTime'],
@@ -160,7 +729,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: 'list_calendar_events',
-        description: 'List upcoming events from Google Calendar',
+        description: 'List upcoming events from the configured calendar',
         inputSchema: {
           type: 'object',
           properties: {
@@ -172,6 +741,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'number',
               description: 'Maximum number of events to return (default: 10)',
             },
+            calendarId: {
+              type: 'string',
+              description: 'Target calendar ID (default: GOOGLE_CALENDAR_ID or "primary")',
+            },
           },
         },
       },
@@ -205,6 +778,20 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Timezone (optional)',
             },
+            calendarId: {
+              type: 'string',
+              description: 'Target calendar ID (default: GOOGLE_CALENDAR_ID or "primary")',
+            },
+            onConflict: {
+              type: 'string',
+              enum: ['warn', 'refuse', 'ignore'],
+              description: 'What to do if the event overlaps other events: "warn" updates the event anyway and lists the conflicts, "refuse" leaves it unchanged, "ignore" skips the check (default: warn)',
+            },
+            conflictCalendarIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Calendars to check for overlapping events (default: the target calendar)',
+            },
           },
           required: ['eventId'],
         },
@@ -219,516 +806,2027 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'The ID of the event to delete',
             },
+            calendarId: {
+              type: 'string',
+              description: 'Target calendar ID (default: GOOGLE_CALENDAR_ID or "primary")',
+            },
           },
           required: ['eventId'],
         },
       },
-      // Canvas Integration
       {
-        name: 'get_canvas_assignments',
-        description: 'Get upcoming assignments from Canvas LMS',
+        name: 'list_calendars',
+        description: 'List your calendars on the configured backend (IDs can be used as calendarId in other tools)',
         inputSchema: {
           type: 'object',
           properties: {},
         },
       },
       {
-        name: 'sync_to_calendar',
-        description: 'Sync Canvas assignments to Google Calendar',
+        name: 'find_free_time',
+        description: 'Find free time slots across one or more calendars (free/busy lookup), e.g. "when am I free Thursday afternoon for an hour?"',
         inputSchema: {
           type: 'object',
           properties: {
-            daysAhead: {
+            startDate: {
+              type: 'string',
+              description: 'Start of the search range: a date (2025-01-16) or ISO 8601 date-time (default: now)',
+            },
+            endDate: {
+              type: 'string',
+              description: 'End of the search range; a date includes that whole day (default: 7 days after the start)',
+            },
+            durationMinutes: {
               type: 'number',
-              description: 'Number of days ahead to sync (default: 14)',
+              description: 'Only return free slots at least this long (default: 30)',
+            },
+            workingHoursStart: {
+              type: 'string',
+              description: 'Earliest local time to consider, HH:MM (default: 09:00)',
+            },
+            workingHoursEnd: {
+              type: 'string',
+              description: 'Latest local time to consider, HH:MM (default: 21:00)',
+            },
+            workingDays: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Weekdays to consider, e.g. ["mon", "tue", "wed", "thu", "fri"] (default: every day)',
+            },
+            calendarIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Calendars whose events count as busy (default: all calendars shown in your calendar list)',
+            },
+            timezone: {
+              type: 'string',
+              description: 'IANA timezone for dates, working hours and output (default: configured timezone or your Canvas profile timezone)',
             },
           },
         },
       },
-    ],
-  };
-});
-
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      // Google Calendar Authentication
-      case 'get_google_auth_url': {
-        const authUrl = googleClient.getAuthUrl();
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Please visit this URL to authorize Google Calendar access:\n\n${authUrl}\n\nAfter authorizing, you'll be redirected to a URL with a 'code' parameter. Copy that code and use the 'set_google_auth_code' tool to complete the authentication.`,
+      // Canvas Integration
+      {
+        name: 'get_canvas_assignments',
+        description: 'Get upcoming assignments from Canvas LMS, plus ungraded to-dos and planner notes from the Canvas planner',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            timezone: {
+              type: 'string',
+              description: 'IANA timezone for due dates (default: configured timezone or your Canvas profile timezone)',
             },
-          ],
-        };
-      }
-
-      case 'set_google_auth_code': {
-        const code = args?.code as string;
-        if (!code) {
-          throw new Error('Authorization code is required');
-        }
-
-        const tokens = await googleClient.exchangeCodeForTokens(code);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Authentication successful!\n\nIMPORTANT: Save this refresh token to your configuration:\n\nRefresh Token: ${tokens.refresh_token}\n\nAdd this to your Claude Desktop config (claude_desktop_config.json) under the canvas-calendar-bridge env section:\n"GOOGLE_REFRESH_TOKEN": "${tokens.refresh_token}"\n\nThen restart Claude Desktop for the changes to take effect.`,
+            submitted: {
+              type: 'boolean',
+              description: 'Only items you have (true) or have not (false) submitted',
             },
-          ],
-        };
-      }
-
-      // General Calendar Management
-      case 'create_calendar_event': {
-        const title = args?.title as string;
-        const description = (args?.description as string) || '';
-        const startTime = args?.startTime as string;
-        const endTime = args?.endTime as string;
-        const timezone = (args?.timezone as string) || 'America/New_York';
-
-        if (!title || !startTime || !endTime) {
-          throw new Error('title, startTime, and endTime are required');
-        }
-
-        const event = {
-          summary: title,
-          description: description,
-          start: {
-            dateTime: startTime,
-            timeZone: timezone,
-          },
-          end: {
-            dateTime: endTime,
-            timeZone: timezone,
+            graded: {
+              type: 'boolean',
+              description: 'Only items that are (true) or are not (false) graded',
+            },
+            late: {
+              type: 'boolean',
+              description: 'Only items whose submission is (true) or is not (false) late',
+            },
+            missing: {
+              type: 'boolean',
+              description: 'Only items that Canvas does (true) or does not (false) flag as missing',
+            },
+            courseIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Only include these Canvas course IDs (default: all active courses)',
+            },
+            excludeCourseIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Leave out these Canvas course IDs',
+            },
+          },
+        },
+      },
+      {
+        name: 'get_assignment_dates',
+        description: 'List every due/availability date variant of a Canvas assignment: the base dates and each section, group or student override (instructors see all variants, students only their own)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            courseId: {
+              type: 'number',
+              description: 'Canvas course ID',
+            },
+            assignmentId: {
+              type: 'number',
+              description: 'Canvas assignment ID',
+            },
+            timezone: {
+              type: 'string',
+              description: 'IANA timezone for the dates (default: configured timezone or your Canvas profile timezone)',
+            },
+          },
+          required: ['courseId', 'assignmentId'],
+        },
+      },
+      {
+        name: 'create_planner_note',
+        description: 'Add a personal note (to-do) to your Canvas planner, optionally tied to a course',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            title: {
+              type: 'string',
+              description: 'Note title',
+            },
+            details: {
+              type: 'string',
+              description: 'Note text (optional)',
+            },
+            todoDate: {
+              type: 'string',
+              description: 'When the note shows up in the planner: a date (2025-01-16) or ISO 8601 date-time',
+            },
+            courseId: {
+              type: 'number',
+              description: 'Canvas course ID to file the note under (optional)',
+            },
+            timezone: {
+              type: 'string',
+              description: 'IANA timezone for todoDate (default: configured timezone or your Canvas profile timezone)',
+            },
+          },
+          required: ['title', 'todoDate'],
+        },
+      },
+      {
+        name: 'complete_planner_item',
+        description: 'Mark a Canvas planner item (assignment, quiz, discussion, page to-do or planner note) as complete, or not complete again. Use plannable_type and plannable_id from get_canvas_assignments',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            plannableType: {
+              type: 'string',
+              enum: ['assignment', 'quiz', 'discussion_topic', 'wiki_page', 'planner_note', 'calendar_event', 'assessment_request'],
+              description: 'Planner object type (plannable_type in get_canvas_assignments)',
+            },
+            plannableId: {
+              type: 'number',
+              description: 'Planner object ID (plannable_id in get_canvas_assignments)',
+            },
+            complete: {
+              type: 'boolean',
+              description: 'false marks the item as not complete again (default: true)',
+            },
+          },
+          required: ['plannableType', 'plannableId'],
+        },
+      },
+      {
+        name: 'sync_to_calendar',
+        description: 'Sync Canvas assignments to the configured calendar (Google Calendar or CalDAV). Safe to re-run: events from earlier syncs are updated in place instead of duplicated. Use dryRun to review the plan first',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            daysAhead: {
+              type: 'number',
+              description: 'Number of days ahead to sync (default: daysAhead from the sync rules file, else 14)',
+            },
+            timezone: {
+              type: 'string',
+              description: 'IANA timezone for created events and the day window (default: configured timezone or your Canvas profile timezone)',
+            },
+            calendarId: {
+              type: 'string',
+              description: 'Target calendar ID when not using per-course calendars (default: GOOGLE_CALENDAR_ID or "primary")',
+            },
+            perCourseCalendars: {
+              type: 'boolean',
+              description: 'Put each course in its own secondary calendar named after its course code, created on first use (default: SYNC_PER_COURSE_CALENDARS or false)',
+            },
+            staleEvents: {
+              type: 'string',
+              enum: ['keep', 'mark', 'delete'],
+              description: 'What to do with bridged events in the window whose Canvas item was deleted, unpublished or moved out of the window: "mark" prefixes the title with [Removed from Canvas], "delete" removes them, "keep" leaves them alone (default: mark)',
+            },
+            eventLayouts: {
+              type: 'object',
+              additionalProperties: { type: 'string', enum: ['deadline', 'availability', 'blocking'] },
+              description: 'Event layout per item type (assignment, quiz, discussion, todo, planner_note): "deadline" is a 1-hour block at the due time, "availability" spans unlock to lock (or due) time shown as free, "blocking" is the same span shown as busy. Default: quizzes use "availability", the rest "deadline" (SYNC_EVENT_LAYOUTS changes the defaults). Reminders count back from the due time',
+            },
+            includeCalendarEvents: {
+              type: 'boolean',
+              description: 'Also sync events from your course calendars (lectures, exams, office hours) and reserved appointment slots, with their real times and locations (default: SYNC_CALENDAR_EVENTS or true)',
+            },
+            submittedItems: {
+              type: 'string',
+              enum: ['keep', 'drop_reminders', 'recolor', 'delete'],
+              description: 'What to do with items you already submitted: "drop_reminders" removes their reminders, "recolor" greys them out and removes reminders, "delete" removes their events, "keep" treats them like any other item (default: keep)',
+            },
+            courseIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Only include these Canvas course IDs (default: all active courses)',
+            },
+            excludeCourseIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Leave out these Canvas course IDs',
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'Only compute the plan (events to create, update, delete or skip, and why) as text and JSON, without writing anything. The result includes a planId (default: false)',
+            },
+            planId: {
+              type: 'string',
+              description: 'Apply exactly the plan of an earlier dry run (valid for 1 hour, once). All other arguments are ignored',
+            },
+          },
+        },
+      },
+      {
+        name: 'list_sync_runs',
+        description: 'List recent sync_to_calendar and schedule_study_blocks runs from the sync journal (run ID, time, and how many events each created, patched or deleted), or the changes of one run',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            runId: {
+              type: 'string',
+              description: 'Show every change of this run instead of the list',
+            },
+            limit: {
+              type: 'number',
+              description: 'Number of runs to list, newest first (default: 10)',
+            },
+          },
+        },
+      },
+      {
+        name: 'undo_sync',
+        description: 'Revert a sync_to_calendar or schedule_study_blocks run from the sync journal: deletes the events it created, restores the previous values of events it patched and re-creates events it deleted (with new IDs)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            runId: {
+              type: 'string',
+              description: 'Run to undo (default: the most recent run that changed anything and is not undone yet)',
+            },
+            force: {
+              type: 'boolean',
+              description: 'Undo even if later runs changed the same events; their changes to those events are overwritten (default: false)',
+            },
+          },
+        },
+      },
+      {
+        name: 'get_sync_rules',
+        description: 'Show the sync rules file in use and its rules (which items sync_to_calendar includes, excludes or reshapes)',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'reload_sync_rules',
+        description: 'Re-read and validate the sync rules file. If the file is invalid, the previous rules stay active',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Rules file (.json, .yaml or .yml) to load instead (default: the current file or SYNC_RULES_FILE)',
+            },
+          },
+        },
+      },
+      {
+        name: 'schedule_study_blocks',
+        description: 'Plan "Work on ..." blocks for upcoming Canvas items in your free time before each deadline, sized by an effort estimate. Run with preview first to review the plan; applying it replaces study blocks from earlier runs and can be reverted with undo_sync',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            preview: {
+              type: 'boolean',
+              description: 'Only show the plan without writing anything (default: false)',
+            },
+            daysAhead: {
+              type: 'number',
+              description: 'Plan for items due within this many days (default: 14)',
+            },
+            timezone: {
+              type: 'string',
+              description: 'IANA timezone for working hours and daily caps (default: configured timezone or your Canvas profile timezone)',
+            },
+            calendarId: {
+              type: 'string',
+              description: 'Calendar to put the study blocks in (default: GOOGLE_CALENDAR_ID or "primary")',
+            },
+            busyCalendarIds: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Calendars whose events count as busy time (default: all calendars shown in your calendar list)',
+            },
+            workingHoursStart: {
+              type: 'string',
+              description: 'Earliest local time for a study block, HH:MM (default: 09:00)',
+            },
+            workingHoursEnd: {
+              type: 'string',
+              description: 'Latest local time for a study block to end, HH:MM (default: 21:00)',
+            },
+            workingDays: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Weekdays to schedule on, e.g. ["mon", "tue", "wed", "thu", "fri"] (default: every day)',
+            },
+            dailyCapMinutes: {
+              type: 'number',
+              description: 'Maximum study minutes per day (default: 240)',
+            },
+            minBlockMinutes: {
+              type: 'number',
+              description: 'Shortest block worth scheduling (default: 30)',
+            },
+            maxBlockMinutes: {
+              type: 'number',
+              description: 'Longest single block; bigger items are split (default: 120)',
+            },
+            minutesPerPoint: {
+              type: 'number',
+              description: 'Effort estimate per point possible (default: 3, capped at 10 hours per item)',
+            },
+            effortOverrides: {
+              type: 'object',
+              description: 'Fixed effort in minutes per item, e.g. {"courses": {"12345": 180, "CS101": 90}, "types": {"quiz": 45}}. Course keys are IDs or course codes and win over type keys',
+              properties: {
+                courses: { type: 'object', additionalProperties: { type: 'number' } },
+                types: { type: 'object', additionalProperties: { type: 'number' } },
+              },
+            },
+            includeSubmitted: {
+              type: 'boolean',
+              description: 'Also plan items you already submitted (default: false)',
+            },
+            courseIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Only include these Canvas course IDs (default: all active courses)',
+            },
+            excludeCourseIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Leave out these Canvas course IDs',
+            },
+          },
+        },
+      },
+      {
+        name: 'export_ics',
+        description: 'Export upcoming Canvas deadlines as an iCalendar (.ics) file for Apple Calendar, Outlook, Thunderbird and others (no Google account needed)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'File path to write the .ics file to (omit to return the calendar inline)',
+            },
+            daysAhead: {
+              type: 'number',
+              description: 'Only export items due within this many days (default: all upcoming items)',
+            },
+            timezone: {
+              type: 'string',
+              description: 'IANA timezone for event times (default: configured timezone or your Canvas profile timezone)',
+            },
+            eventLayouts: {
+              type: 'object',
+              additionalProperties: { type: 'string', enum: ['deadline', 'availability', 'blocking'] },
+              description: 'Event layout per item type, as in sync_to_calendar (default: quizzes "availability", the rest "deadline")',
+            },
+            courseIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Only include these Canvas course IDs (default: all active courses)',
+            },
+            excludeCourseIds: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Leave out these Canvas course IDs',
+            },
+          },
+        },
+      },
+    ],
+  };
+});
+
+// Tools that write journaled events hold the sync lock, so the MCP server, the CLI and the daemon
+// (possibly in separate processes) never write or undo at the same time
+function needsSyncLock(request: CallToolRequest): boolean {
+  const { name, arguments: args } = request.params;
+  return (name === 'sync_to_calendar' && args?.dryRun !== true)
+    || (name === 'schedule_study_blocks' && args?.preview !== true)
+    || name === 'undo_sync';
+}
+
+// The parts of the MCP request context a tool call uses; the CLI supplies its own
+type ToolCallContext = Pick<RequestHandlerExtra<ServerRequest, ServerNotification>, 'signal' | '_meta' | 'sendNotification'>;
+
+// Run one tool call, from an MCP client or the CLI.
+// Every log line written while a tool runs carries the tool name and a per-call correlation ID
+function runTool(request: CallToolRequest, extra: ToolCallContext) {
+  return withLogContext({ tool: request.params.name }, async () => {
+    if (!needsSyncLock(request)) {
+      return handleToolCall(request, extra);
+    }
+
+    let lock: LockHandle;
+    try {
+      lock = await acquireLockFile(process.env.SYNC_LOCK_FILE || getDefaultLockPath(), `${request.params.name} (${cliArgs.length > 0 ? 'CLI' : 'MCP server'})`);
+    } catch (error) {
+      log.warn('Sync lock is busy', error instanceof Error ? error.message : error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error instanceof Error ? error.message : error}`,
           },
+        ],
+        isError: true,
+      };
+    }
+    try {
+      return await handleToolCall(request, extra);
+    } finally {
+      await lock.release();
+    }
+  });
+}
+
+// Handle tool execution
+server.setRequestHandler(CallToolRequestSchema, (request, extra) => runTool(request, extra));
+
+// Tool calls made by the CLI: progress messages (like the sign-in URL) go to stderr
+function callToolFromCli(name: string, args: Record<string, unknown>): Promise<ToolResult> {
+  const context: ToolCallContext = {
+    signal: new AbortController().signal,
+    _meta: { progressToken: 0 },
+    sendNotification: async (notification) => {
+      if (notification.method === 'notifications/progress' && notification.params.message) {
+        process.stderr.write(`${notification.params.message}\n`);
+      }
+    },
+  };
+
+  return runTool({ method: 'tools/call', params: { name, arguments: args } }, context);
+}
+
+async function handleToolCall(request: CallToolRequest, extra: ToolCallContext) {
+  const { name, arguments: args } = request.params;
+  log.debug('Tool called', args);
+
+  try {
+    switch (name) {
+      // Google Calendar Authentication
+      case 'google_login': {
+        const timeoutSeconds = (args?.timeoutSeconds as number) || 300;
+        const progressToken = extra._meta?.progressToken;
+
+        const result = await runLoopbackAuthorization(googleClient, {
+          timeoutMs: timeoutSeconds * 1000,
+          openBrowser: args?.openBrowser !== false,
+          signal: extra.signal,
+          // Clients that show progress messages can display the URL while the tool is still running
+          onAuthUrl: progressToken === undefined ? undefined : (authUrl) => extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress: 0, message: `Open this URL to authorize Google Calendar: ${authUrl}` },
+          }),
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: describeSignIn('Signed in to Google Calendar.', result.receivedRefreshToken, result.stored),
+            },
+          ],
+        };
+      }
+
+      case 'get_google_auth_url': {
+        const authUrl = googleClient.getAuthUrl();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Please visit this URL to authorize Google Calendar access:\n\n${authUrl}\n\nAfter authorizing, you'll be redirected to a URL with a 'code' parameter. Copy that code and use the 'set_google_auth_code' tool to complete the authentication.`,
+            },
+          ],
+        };
+      }
+
+      case 'set_google_auth_code': {
+        const code = args?.code as string;
+        if (!code) {
+          throw new Error('Authorization code is required');
+        }
+
+        const tokens = await googleClient.exchangeCodeForTokens(code);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: describeSignIn('Authentication successful! Google Calendar is ready to use.', !!tokens.refresh_token, tokens.stored),
+            },
+          ],
+        };
+      }
+
+      case 'google_auth_status': {
+        const status = googleClient.getAuthStatus();
+        const sourceLabels: { [key: string]: string } = {
+          'token store': 'token store',
+          'environment': 'GOOGLE_REFRESH_TOKEN environment variable',
+          'authorization': 'authorized in this session',
+        };
+
+        const lines = [
+          status.authenticated
+            ? `Google Calendar: authenticated (${sourceLabels[status.source || ''] || 'unknown source'})`
+            : 'Google Calendar: not authenticated. Use google_login to sign in.',
+          `Token store: ${status.tokenStorePath || 'disabled'}${status.tokenStoreEncrypted ? ' (encrypted)' : ''}`,
+        ];
+        if (status.accessTokenExpiresAt) {
+          lines.push(`Cached access token valid until: ${status.accessTokenExpiresAt}`);
+        }
+        if (status.scope) {
+          lines.push(`Scopes: ${status.scope}`);
+        }
+        if (status.source === 'environment') {
+          lines.push('\nGOOGLE_REFRESH_TOKEN is set in your config. Signing in again with google_login stores the token in the token store instead, after which it can be removed from the config.');
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: lines.join('\n'),
+            },
+          ],
         };
+      }
+
+      case 'google_logout': {
+        const wasEnvironmentToken = googleClient.getAuthStatus().source === 'environment';
+        const result = await googleClient.logout();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${result.message} Stored credentials were deleted.${wasEnvironmentToken ? '\n\nRemove GOOGLE_REFRESH_TOKEN from your config too, or it will be used again after a restart.' : ''}`,
+            },
+          ],
+        };
+      }
+
+      // General Calendar Management
+      case 'create_calendar_event': {
+        const title = args?.title as string;
+        const description = (args?.description as string) || '';
+        const startTime = args?.startTime as string;
+        const endTime = args?.endTime as string;
+        const timezone = await resolveTimezone(args?.timezone);
+
+        if (!title || !startTime || !endTime) {
+          throw new Error('title, startTime, and endTime are required');
+        }
+
+        const event = {
+          summary: title,
+          description: description,
+          start: {
+            dateTime: startTime,
+            timeZone: timezone,
+          },
+          end: {
+            dateTime: endTime,
+            timeZone: timezone,
+          },
+        };
+
+        const calendarId = (args?.calendarId as string) || calendarProvider.getDefaultCalendarId();
+        const conflictWarning = await checkConflicts(
+          args,
+          parseTimeArgument(startTime, timezone),
+          parseTimeArgument(endTime, timezone),
+          calendarId,
+          timezone
+        );
+        const createdEvent = await calendarProvider.createEvent(event, calendarId);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Calendar event created successfully!\n\nTitle: ${title}\nStart: ${startTime}\nEnd: ${endTime}\nEvent ID: ${createdEvent.id}\nCalendar: ${calendarId}${createdEvent.htmlLink ? `\nLink: ${createdEvent.htmlLink}` : ''}${conflictWarning}`,
+            },
+          ],
+        };
+      }
+
+      case 'list_calendar_events': {
+        const daysAhead = (args?.daysAhead as number) || 7;
+        const maxResults = (args?.maxResults as number) || 10;
+        const calendarId = (args?.calendarId as string) || calendarProvider.getDefaultCalendarId();
+
+        const now = new Date();
+        const futureDate = new Date();
+        futureDate.setDate(futureDate.getDate() + daysAhead);
+
+        const events = await calendarProvider.listEvents(
+          now.toISOString(),
+          futureDate.toISOString(),
+          maxResults,
+          calendarId
+        );
+
+        if (!events.items || events.items.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No upcoming events found in the next ${daysAhead} days.`,
+              },
+            ],
+            structuredContent: { calendarId, daysAhead, events: [] },
+          };
+        }
+
+        const eventList = events.items.map((event: any) => {
+          const start = event.start.dateTime || event.start.date;
+          const end = event.end.dateTime || event.end.date;
+          return `• ${event.summary || 'Untitled'}\n  Start: ${start}\n  End: ${end}\n  ID: ${event.id}${event.htmlLink ? `\n  Link: ${event.htmlLink}` : ''}`;
+        }).join('\n\n');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${events.items.length} upcoming event(s) in the next ${daysAhead} days:\n\n${eventList}`,
+            },
+          ],
+          structuredContent: {
+            calendarId,
+            daysAhead,
+            events: events.items.map((event: any) => ({
+              id: event.id,
+              summary: event.summary || 'Untitled',
+              start: event.start.dateTime || event.start.date,
+              end: event.end.dateTime || event.end.date,
+              link: event.htmlLink,
+            })),
+          },
+        };
+      }
+
+      case 'update_calendar_event': {
+        const eventId = args?.eventId as string;
+        if (!eventId) {
+          throw new Error('eventId is required');
+        }
+
+        const updates: any = {};
+
+        if (args?.title) {
+          updates.summary = args.title as string;
+        }
+        if (args?.description !== undefined) {
+          updates.description = args.description as string;
+        }
+        const timezone = await resolveTimezone(args?.timezone);
+        if (args?.startTime) {
+          updates.start = {
+            dateTime: args.startTime as string,
+            timeZone: timezone,
+          };
+        }
+        if (args?.endTime) {
+          updates.end = {
+            dateTime: args.endTime as string,
+            timeZone: timezone,
+          };
+        }
+
+        const calendarId = (args?.calendarId as string) || calendarProvider.getDefaultCalendarId();
+
+        // Only a new time can create an overlap; the side that isn't changing comes from the event
+        let conflictWarning = '';
+        if ((args?.startTime || args?.endTime) && readConflictPolicy(args?.onConflict) !== 'ignore') {
+          const current = await calendarProvider.getEvent(eventId, calendarId);
+          const start = args?.startTime ? parseTimeArgument(args.startTime as string, timezone) : Date.parse(current.start?.dateTime);
+          const end = args?.endTime ? parseTimeArgument(args.endTime as string, timezone) : Date.parse(current.end?.dateTime);
+          conflictWarning = await checkConflicts(args, start, end, calendarId, timezone, eventId);
+        }
+
+        const updatedEvent = await calendarProvider.updateEvent(eventId, updates, calendarId);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Event updated successfully!\n\nEvent ID: ${eventId}\nTitle: ${updatedEvent.summary}${updatedEvent.htmlLink ? `\nLink: ${updatedEvent.htmlLink}` : ''}${conflictWarning}`,
+            },
+          ],
+        };
+      }
+
+      case 'delete_calendar_event': {
+        const eventId = args?.eventId as string;
+        if (!eventId) {
+          throw new Error('eventId is required');
+        }
+
+        const calendarId = (args?.calendarId as string) || calendarProvider.getDefaultCalendarId();
+        await calendarProvider.deleteEvent(eventId, calendarId);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Event deleted successfully!\n\nEvent ID: ${eventId}`,
+            },
+          ],
+        };
+      }
+
+      case 'list_calendars': {
+        const calendars = await calendarProvider.listCalendars();
+
+        if (calendars.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No calendars found on ${calendarProvider.displayName}.`,
+              },
+            ],
+          };
+        }
+
+        const calendarList = calendars.map((calendar: any) => {
+          const courseId = readCourseCalendarId(calendar);
+          const tags = [
+            calendar.primary ? 'primary' : null,
+            calendar.accessRole,
+            courseId !== null ? `Canvas course ${courseId}` : null,
+          ].filter(Boolean).join(', ');
+          return `• ${calendar.summaryOverride || calendar.summary || 'Untitled'} (${tags})\n  ID: ${calendar.id}${calendar.timeZone ? `\n  Timezone: ${calendar.timeZone}` : ''}`;
+        }).join('\n\n');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${calendars.length} calendar(s):\n\n${calendarList}`,
+            },
+          ],
+        };
+      }
+
+      case 'find_free_time': {
+        const timezone = await resolveTimezone(args?.timezone);
+        const workingHours = readWorkingHours(args);
+        const durationMinutes = (args?.durationMinutes as number) || 30;
+        const calendarIds = args?.calendarIds as string[] | undefined;
+        if (calendarIds !== undefined && (!Array.isArray(calendarIds) || calendarIds.some(id => typeof id !== 'string'))) {
+          throw new Error('calendarIds must be an array of calendar IDs');
+        }
+
+        const now = Date.now();
+        const rangeStart = Math.max(args?.startDate ? parseTimeArgument(args.startDate as string, timezone) : now, now);
+        const rangeEnd = args?.endDate
+          ? parseTimeArgument(args.endDate as string, timezone, true)
+          : rangeStart + 7 * 24 * 60 * 60 * 1000;
+        if (isNaN(rangeStart) || isNaN(rangeEnd)) {
+          throw new Error('startDate and endDate must be dates (2025-01-16) or ISO 8601 date-times');
+        }
+        if (rangeEnd <= rangeStart) {
+          throw new Error('The search range is empty: endDate must be after startDate (and in the future)');
+        }
+
+        const busyTime = await loadBusyTime(calendarIds, new Date(rangeStart), new Date(rangeEnd));
+        // Start on a quarter hour rather than at the current minute
+        const freeSlots = findFreeSlots(roundUpToMinutes(rangeStart, 15), rangeEnd, busyTime.busy, workingHours, timezone, durationMinutes);
+
+        const rangeLabel = `${convertToTimezone(new Date(rangeStart).toISOString(), timezone)?.readable} - ${convertToTimezone(new Date(rangeEnd).toISOString(), timezone)?.readable}`;
+        if (freeSlots.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No free slots of ${formatMinutes(durationMinutes)} or more between ${rangeLabel} (${formatClock(workingHours.startMinutes)}-${formatClock(workingHours.endMinutes)}, ${busyTime.calendarIds.length} calendar(s) checked).` + formatBusyErrors(busyTime.errors),
+              },
+            ],
+          };
+        }
+
+        const slotLines = freeSlots.map(slot => {
+          const start = convertToTimezone(new Date(slot.start).toISOString(), timezone);
+          const end = convertToTimezone(new Date(slot.end).toISOString(), timezone);
+          return `• ${start?.readable} - ${end?.readable} (${formatMinutes((slot.end - slot.start) / 60000)})`;
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${freeSlots.length} free slot(s) of ${formatMinutes(durationMinutes)} or more between ${rangeLabel} (${timezone}, ${formatClock(workingHours.startMinutes)}-${formatClock(workingHours.endMinutes)}, ${busyTime.calendarIds.length} calendar(s) checked):\n\n${slotLines.join('\n')}` + formatBusyErrors(busyTime.errors),
+            },
+          ],
+        };
+      }
+
+      // Canvas Integration
+      case 'get_canvas_assignments': {
+        const timezone = await resolveTimezone(args?.timezone);
+        const { items: allAssignments, warnings } = await canvasClient.getUpcomingAssignments(readCourseFilter(args));
+
+        // Optional submission-status filters; each one only applies when given
+        const statusFilters = (['submitted', 'graded', 'late', 'missing'] as const)
+          .filter(field => typeof args?.[field] === 'boolean');
+        const assignments = allAssignments.filter((item: any) =>
+          statusFilters.every(field => item[field] === args?.[field])
+        );
+
+        assignmentsLog.info(`${assignments.length} of ${allAssignments.length} item(s) match (timezone: ${timezone}, filters: ${statusFilters.map(field => `${field}=${args?.[field]}`).join(', ') || 'none'})`);
+
+        if (!assignments || assignments.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: (statusFilters.length > 0
+                  ? `No Canvas assignments or quizzes match the filters (${statusFilters.map(field => `${field}=${args?.[field]}`).join(', ')}).`
+                  : 'No upcoming assignments or quizzes found in Canvas.') + formatCourseWarnings(warnings),
+              },
+            ],
+            structuredContent: { timezone, items: [], warnings },
+          };
+        }
+
+        // Format the assignments for better readability (all in the resolved timezone)
+        // Filter out items without valid due dates
+        const formatted = assignments
+          .map((item: any) => {
+            // Canvas upcoming_events can have fields at different levels
+            const dueAtField = item.due_at || item.assignment?.due_at;
+            const nameField = item.title || item.name || item.assignment?.name;
+
+
+            // Only include items with due dates
+            if (!dueAtField) {
+              assignmentsLog.debug(`Filtered out "${nameField}": no due date`);
+              return null;
+            }
+
+            // Get type-specific emoji and label
+            const typeDisplay: { [key: string]: string } = {
+              'assignment': '📚 Assignment',
+              'quiz': '📝 Quiz',
+              'discussion': '💬 Discussion',
+              'todo': '☑️ To-Do',
+              'planner_note': '🗒️ Planner Note',
+              'event': '📅 Event'
+            };
+
+            const itemType = typeDisplay[item.type] || '📄 Unknown';
+
+            // Convert UTC date to the resolved timezone
+            const localDate = convertToTimezone(dueAtField, timezone);
+
+            // If conversion failed, skip this item
+            if (!localDate) {
+              assignmentsLog.warn(`Filtered out "${nameField}": timezone conversion failed for due_at ${dueAtField}`);
+              return null;
+            }
+
+            const formattedItem = {
+              type: itemType,
+              name: nameField,
+              due_date: localDate.readable,
+              points: item.points_possible || item.assignment?.points_possible || 'N/A',
+              course: item.context_name || 'N/A',
+              url: item.html_url || item.assignment?.html_url,
+              status: describeSubmissionStatus(item),
+              submitted: item.submitted,
+              graded: item.graded,
+              late: item.late,
+              missing: item.missing,
+              // Dates after section/student overrides; due_date_for names the variant that applies
+              due_date_for: item.due_date_variant,
+              available_from: item.unlock_at ? convertToTimezone(item.unlock_at, timezone)?.readable : undefined,
+              available_until: item.lock_at ? convertToTimezone(item.lock_at, timezone)?.readable : undefined,
+              date_variants: item.date_variants?.length > 1 ? item.date_variants.length : undefined,
+              // Pass these to complete_planner_item to check the item off in Canvas
+              plannable_type: item.plannable_type,
+              plannable_id: item.plannable_id,
+              description: item.description ? item.description.substring(0, 100) + '...' : 'No description',
+            };
+
+            return formattedItem;
+          })
+          .filter((item: any) => item !== null); // Remove nulls from failed conversions
+
+        assignmentsLog.debug(`Formatted ${formatted.length} of ${assignments.length} item(s)`);
+
+        if (formatted.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Found assignments/quizzes but none have valid due dates.' + formatCourseWarnings(warnings),
+              },
+            ],
+            structuredContent: { timezone, items: [], warnings },
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${formatted.length} upcoming item(s) with due dates (times shown in ${timezone}):\n\n` + JSON.stringify(formatted, null, 2) + formatCourseWarnings(warnings),
+            },
+          ],
+          // The same items as data, for `assignments --json` and clients that read structured results
+          structuredContent: { timezone, items: formatted, warnings },
+        };
+      }
+
+      case 'get_assignment_dates': {
+        const courseId = Number(args?.courseId);
+        const assignmentId = Number(args?.assignmentId);
+        if (!Number.isFinite(courseId) || !Number.isFinite(assignmentId)) {
+          throw new Error('courseId and assignmentId are required');
+        }
+
+        const timezone = await resolveTimezone(args?.timezone);
+        const { assignment, variants } = await canvasClient.getAssignmentDates(courseId, assignmentId);
+        const readable = (value: string | null) => value ? (convertToTimezone(value, timezone)?.readable || value) : 'none';
+
+        const variantList = variants.map(variant => {
+          const appliesTo = variant.base ? 'everyone without an override' : `${variant.set_type || 'override'}${variant.set_id ? ` ${variant.set_id}` : ''}`;
+          return `• ${variant.title} (${appliesTo})\n  Due: ${readable(variant.due_at)}\n  Available from: ${readable(variant.unlock_at)}\n  Available until: ${readable(variant.lock_at)}`;
+        }).join('\n\n');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `"${assignment.name}" has ${variants.length} date variant(s) (times shown in ${timezone}):\n\n${variantList}`,
+            },
+          ],
+        };
+      }
+
+      case 'create_planner_note': {
+        const title = args?.title as string;
+        const todoDate = args?.todoDate as string;
+        if (!title || !todoDate) {
+          throw new Error('title and todoDate are required');
+        }
+
+        const timezone = await resolveTimezone(args?.timezone);
+        const todoTime = parseTimeArgument(todoDate, timezone);
+        if (isNaN(todoTime)) {
+          throw new Error(`Invalid todoDate "${todoDate}". Use a date (2025-01-16) or ISO 8601 date-time.`);
+        }
+
+        const note = await canvasClient.createPlannerNote({
+          title,
+          details: args?.details as string | undefined,
+          todo_date: new Date(todoTime).toISOString(),
+          course_id: args?.courseId as number | undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Planner note created!\n\nTitle: ${note.title}\nTo-do date: ${convertToTimezone(note.todo_date, timezone)?.readable || note.todo_date}\nCourse: ${note.course_id ?? 'none (personal)'}\nNote ID: ${note.id} (plannable_type: planner_note)`,
+            },
+          ],
+        };
+      }
+
+      case 'complete_planner_item': {
+        const plannableType = args?.plannableType as PlannableType;
+        const plannableId = Number(args?.plannableId);
+        if (!PLANNABLE_TYPES.includes(plannableType)) {
+          throw new Error(`Invalid plannableType "${plannableType}". Use one of: ${PLANNABLE_TYPES.join(', ')}`);
+        }
+        if (!Number.isFinite(plannableId)) {
+          throw new Error('plannableId must be a Canvas object ID');
+        }
+
+        const complete = args?.complete !== false;
+        const override = await canvasClient.setPlannerItemComplete(plannableType, plannableId, complete);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Marked ${plannableType} ${plannableId} as ${override.marked_complete ? 'complete' : 'not complete'} in the Canvas planner.`,
+            },
+          ],
+        };
+      }
+
+      case 'sync_to_calendar': {
+        if (args?.planId !== undefined) {
+          if (args.dryRun) {
+            throw new Error('Use either dryRun or planId, not both');
+          }
+          return await applySyncPlan(String(args.planId));
+        }
+
+        const dryRun = args?.dryRun === true;
+        const startedAt = new Date();
+        const daysAhead = (args?.daysAhead as number) || syncRules?.daysAhead || 14;
+        const timezone = await resolveTimezone(args?.timezone);
+        const defaultCalendarId = (args?.calendarId as string) || calendarProvider.getDefaultCalendarId();
+        const perCourseCalendars = args?.perCourseCalendars !== undefined
+          ? Boolean(args.perCourseCalendars)
+          : process.env.SYNC_PER_COURSE_CALENDARS === 'true';
+        const staleEvents = ((args?.staleEvents as string) || 'mark') as StaleEventPolicy;
+        if (!STALE_EVENT_POLICIES.includes(staleEvents)) {
+          throw new Error(`Invalid staleEvents policy "${staleEvents}". Use one of: ${STALE_EVENT_POLICIES.join(', ')}`);
+        }
+        const submittedItems = ((args?.submittedItems as string) || 'keep') as SubmittedItemPolicy;
+        if (!SUBMITTED_ITEM_POLICIES.includes(submittedItems)) {
+          throw new Error(`Invalid submittedItems policy "${submittedItems}". Use one of: ${SUBMITTED_ITEM_POLICIES.join(', ')}`);
+        }
+        const eventLayouts = readEventLayouts(args);
+        const includeCalendarEvents = args?.includeCalendarEvents !== undefined
+          ? Boolean(args.includeCalendarEvents)
+          : process.env.SYNC_CALENDAR_EVENTS !== 'false';
+        // Over-fetch by a day; the zoned day-window check below decides what's in
+        const { items: assignments, loadedCourseIds, warnings, skippedItemTypes } = await canvasClient.getUpcomingAssignments(
+          readCourseFilter(args),
+          includeCalendarEvents ? { calendarEventsUntil: new Date(Date.now() + (daysAhead + 1) * 24 * 60 * 60 * 1000) } : {}
+        );
+        // Events of courses (or item types) that failed to load or were filtered out are never reconciled
+        const reconcilableCourseIds = new Set(loadedCourseIds.map(String));
+
+        const created: string[] = [];
+        const updated: string[] = [];
+        const unchanged: string[] = [];
+        const skipped: string[] = [];
+        const removed: string[] = [];
+        // Every decision, for the dry-run plan
+        const planEntries: SyncPlanEntry[] = [];
+        const plannedWrites: StoredSyncPlan['writes'] = [];
+        const newCalendars: StoredSyncPlan['newCalendars'] = [];
+        const skipItem = (itemName: string, reason: string) => {
+          syncLog.debug(`Skipped ${itemName} (${reason})`);
+          skipped.push(`${itemName} (${reason})`);
+          planEntries.push({ action: 'skip', item: itemName, reason });
+        };
+
+        // Origin keys of Canvas items that still belong in the window (or failed to sync),
+        // so reconciliation never touches their events
+        const activeOriginKeys = new Set<string>();
+
+        // Calendar writes are queued and sent in batches (Google packs up to 50 per request);
+        // each write reports back into created/updated/removed or skipped on its own
+        const journalChanges: JournalChange[] = [];
+        const pendingWrites: Array<{
+          operation: BatchOperation;
+          entry: SyncPlanEntry;
+          // The event being patched or deleted, for the journal
+          existing?: any;
+          onSuccess: () => void;
+          onFailure: (error: string) => void;
+        }> = [];
+        const flushWrites = async () => {
+          const writes = pendingWrites.splice(0);
+          if (writes.length === 0) return;
+
+          // A dry run keeps the writes for the plan instead of sending them
+          if (dryRun) {
+            for (const write of writes) {
+              planEntries.push(write.entry);
+              plannedWrites.push({ operation: write.operation, entry: write.entry, existing: write.existing });
+            }
+            return;
+          }
+
+          syncLog.debug(`Sending ${writes.length} calendar write(s)`);
+          let results: BatchResult[];
+          try {
+            results = await calendarProvider.batch(writes.map(write => write.operation));
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'unknown';
+            results = writes.map(() => ({ ok: false, error: errorMessage }));
+          }
+
+          results.forEach((result, index) => {
+            if (result.ok) {
+              const { operation, existing, entry } = writes[index];
+              journalChanges.push(toJournalChange(operation, existing, result.data, entry.item));
+              writes[index].onSuccess();
+            } else {
+              writes[index].onFailure(result.error);
+            }
+          });
+        };
+        // A failed write leaves the item's existing event alone (its origin key is already active)
+        const reportWriteFailure = (itemName: string, error: string) => {
+          syncLog.error(`Failed to sync "${itemName}": ${error}`);
+          skipped.push(`${itemName} (error: ${error})`);
+        };
+
+        // Index events created by earlier syncs so we patch them instead of duplicating.
+        // Loaded lazily, once per target calendar.
+        const existingByCalendar = new Map<string, Map<string, any>>();
+        const getExistingEvents = async (calendarId: string) => {
+          let existingByOrigin = existingByCalendar.get(calendarId);
+          if (!existingByOrigin) {
+            existingByOrigin = new Map<string, any>();
+            // A course calendar that only exists in a dry-run plan has no events yet
+            const bridged = calendarId.startsWith(PLANNED_CALENDAR_PREFIX)
+              ? []
+              : await calendarProvider.listBridgedEvents(undefined, undefined, calendarId);
+            for (const existing of bridged) {
+              const origin = readOrigin(existing);
+              if (origin) {
+                existingByOrigin.set(getOriginKey(origin), existing);
+              }
+            }
+            syncLog.debug(`Existing bridged events in ${calendarId}: ${existingByOrigin.size}`);
+            existingByCalendar.set(calendarId, existingByOrigin);
+          }
+          return existingByOrigin;
+        };
+
+        // In per-course mode, reuse the secondary calendar tagged with each course ID and create missing ones
+        const courseCalendars = new Map<number, string>();
+        if (perCourseCalendars) {
+          for (const calendar of await calendarProvider.listCalendars()) {
+            const courseId = readCourseCalendarId(calendar);
+            if (courseId !== null && !courseCalendars.has(courseId)) {
+              courseCalendars.set(courseId, calendar.id);
+            }
+          }
+          syncLog.debug(`Existing course calendars found: ${courseCalendars.size}`);
+        }
+        const getTargetCalendarId = async (item: any): Promise<string> => {
+          const courseId = item.course_id;
+          // Personal planner notes have no course calendar
+          if (!perCourseCalendars || courseId === undefined || courseId === null || courseId === PERSONAL_COURSE_ID) {
+            return defaultCalendarId;
+          }
+
+          const known = courseCalendars.get(courseId);
+          if (known) {
+            return known;
+          }
+
+          const calendarName = item.course_code || item.context_name || `Canvas course ${courseId}`;
+          if (dryRun) {
+            const placeholderId = `${PLANNED_CALENDAR_PREFIX}${courseId}`;
+            newCalendars.push({ placeholderId, courseId, name: calendarName, courseName: item.context_name, timeZone: timezone });
+            courseCalendars.set(courseId, placeholderId);
+            return placeholderId;
+          }
+          syncLog.info(`Creating course calendar "${calendarName}" for course ${courseId}`);
+          const calendar = await calendarProvider.createCalendar(
+            calendarName,
+            buildCourseCalendarDescription(courseId, item.context_name),
+            timezone
+          );
+          courseCalendars.set(courseId, calendar.id);
+          return calendar.id;
+        };
+
+        syncLog.info(`Syncing ${assignments.length} item(s) to ${perCourseCalendars ? 'one calendar per course' : defaultCalendarId} (window: ${daysAhead} days, timezone: ${timezone})`);
+
+        const now = new Date();
+
+        for (const assignment of assignments) {
+          const origin = {
+            courseId: assignment.course_id ?? assignment.assignment?.course_id,
+            assignmentId: assignment.id,
+            itemType: assignment.type,
+          };
+
+          try {
+            // Canvas upcoming_events can have due_at at different levels
+            // Check both top-level and nested assignment.due_at
+            const dueAtField = assignment.due_at || assignment.assignment?.due_at;
+            const nameField = assignment.title || assignment.name || assignment.assignment?.name;
+
+
+            if (!dueAtField) {
+              skipItem(nameField || 'Unknown', 'no due date - checked due_at and assignment.due_at');
+              continue;
+            }
+
+            const dueDateUTC = new Date(dueAtField);
+
+            // Validate the date
+            if (isNaN(dueDateUTC.getTime())) {
+              skipItem(nameField, `invalid due date: ${dueAtField}`);
+              continue;
+            }
+
+            // Count calendar days in the user's timezone, so "14 days" means through the end of that local day
+            const daysDiff = getZonedDayDifference(now, dueDateUTC, timezone);
+
+            if (dueDateUTC.getTime() > now.getTime() && daysDiff <= daysAhead) {
+              // Convert UTC due date to the resolved timezone
+              const dueLocal = convertToTimezone(dueAtField, timezone);
+
+              // Check if conversion succeeded
+              if (!dueLocal) {
+                skipItem(nameField, 'date conversion failed');
+                continue;
+              }
+
+              const rules = resolveRules(assignment, syncRules);
+              if (!rules.included) {
+                // Events from before the item was excluded are removed rather than left to go stale
+                activeOriginKeys.add(getOriginKey(origin));
+                const excludedCalendarId = rules.calendarId
+                  || (perCourseCalendars ? courseCalendars.get(origin.courseId) : undefined)
+                  || defaultCalendarId;
+                const existing = (await getExistingEvents(excludedCalendarId)).get(getOriginKey(origin));
+                if (existing) {
+                  pendingWrites.push({
+                    operation: { kind: 'delete', eventId: existing.id, calendarId: excludedCalendarId },
+                    existing,
+                    entry: {
+                      action: 'delete',
+                      item: nameField,
+                      reason: `excluded by rule "${rules.excludedBy}"`,
+                      calendarId: excludedCalendarId,
+                      eventId: existing.id,
+                    },
+                    onSuccess: () => {
+                      syncLog.info(`Deleted event ${existing.id} for "${nameField}" (excluded by rule "${rules.excludedBy}")`);
+                      removed.push(`${nameField} - deleted (excluded by rule "${rules.excludedBy}")`);
+                    },
+                    onFailure: (error) => reportWriteFailure(nameField, error),
+                  });
+                } else {
+                  skipItem(nameField, `excluded by rule "${rules.excludedBy}"`);
+                }
+                continue;
+              }
+
+              // Canvas calendar events keep their real times; everything else follows the layout
+              // configured for its type (by default a 1-hour block starting AT the due time, or
+              // the duration set by a sync rule)
+              const isCalendarEvent = assignment.type === 'event';
+              let span = isCalendarEvent
+                ? {
+                    start: dueDateUTC,
+                    end: assignment.end_at && Date.parse(assignment.end_at) >= dueDateUTC.getTime()
+                      ? new Date(assignment.end_at)
+                      : new Date(dueDateUTC.getTime() + 60 * 60 * 1000),
+                    layout: 'deadline' as EventLayout,
+                  }
+                : getEventSpan(assignment, eventLayouts[assignment.type] || 'deadline');
+              if (!isCalendarEvent && span.layout === 'deadline' && rules.durationMinutes) {
+                span = { ...span, end: new Date(span.start.getTime() + rules.durationMinutes * 60 * 1000) };
+              }
+              const startLocal = convertToTimezone(span.start.toISOString(), timezone);
+              const endLocal = convertToTimezone(span.end.toISOString(), timezone);
+
+              if (!startLocal || !endLocal) {
+                skipItem(nameField, 'event time conversion failed');
+                continue;
+              }
+              const isWindow = span.layout !== 'deadline';
+
+              // All-day Canvas events become all-day calendar events (end date is exclusive)
+              const allDayDate: string | null = isCalendarEvent && assignment.all_day
+                ? (assignment.all_day_date || dueLocal.datetime.substring(0, 10))
+                : null;
+              const eventTimes = allDayDate
+                ? {
+                    start: { date: allDayDate },
+                    end: { date: new Date(Date.parse(`${allDayDate}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().substring(0, 10) },
+                  }
+                : {
+                    start: { dateTime: startLocal.datetime, timeZone: timezone },
+                    end: { dateTime: endLocal.datetime, timeZone: timezone },
+                  };
+              const locationField: string = [assignment.location_name, assignment.location_address].filter(Boolean).join(', ');
+
+              // Get type-specific info (emoji and label)
+              const itemInfo = ITEM_TYPE_INFO[assignment.type] || ITEM_TYPE_INFO['event'];
+              const pointsField = assignment.points_possible || assignment.assignment?.points_possible || 'N/A';
+              const urlField = assignment.html_url || assignment.assignment?.html_url || '';
+              const statusField = describeSubmissionStatus(assignment);
+              // The submitted-items policy only changes the event once the item is submitted
+              const submittedTreatment: SubmittedItemPolicy = assignment.submitted ? submittedItems : 'keep';
+
+              const quizLines = describeQuizDetails(assignment);
+              const windowLines = isWindow ? `Opens: ${startLocal.readable}\nCloses: ${endLocal.readable}\n` : '';
+              const timeLabel = allDayDate ? `All day ${allDayDate}` : `${isCalendarEvent ? 'Starts' : 'Due'}: ${dueLocal.readable}`;
+              const syncMessage = `${nameField} (${itemInfo.label}) - ${timeLabel}`;
+              activeOriginKeys.add(getOriginKey(origin));
+              const calendarId = rules.calendarId || await getTargetCalendarId(assignment);
+              const existing = (await getExistingEvents(calendarId)).get(getOriginKey(origin));
+
+              if (submittedTreatment === 'delete') {
+                if (existing) {
+                  pendingWrites.push({
+                    operation: { kind: 'delete', eventId: existing.id, calendarId },
+                    existing,
+                    entry: { action: 'delete', item: syncMessage, reason: 'already submitted', calendarId, eventId: existing.id },
+                    onSuccess: () => {
+                      syncLog.info(`Deleted event ${existing.id} for submitted item "${nameField}"`);
+                      removed.push(`${syncMessage} - deleted (already submitted)`);
+                    },
+                    onFailure: (error) => reportWriteFailure(nameField, error),
+                  });
+                } else {
+                  skipItem(nameField, 'already submitted');
+                }
+                continue;
+              }
+
+              // Rule output is part of the fingerprint so editing the rules file updates existing events
+              const ruleVariant = rules.ruleNames.length > 0
+                ? JSON.stringify([rules.title, rules.description, rules.durationMinutes, rules.reminders, rules.colorId])
+                : null;
+              const fingerprint = computeFingerprint({
+                name: nameField,
+                dueAt: dueAtField,
+                pointsPossible: pointsField,
+                htmlUrl: urlField,
+                timeZone: timezone,
+                variant: [
+                  isCalendarEvent
+                    ? `${span.end.toISOString()}|${allDayDate ?? ''}|${locationField}`
+                    : [
+                        `${statusField}|${submittedTreatment}`,
+                        // "due-reminders" re-patches windows whose reminders counted back from the opening
+                        ...(isWindow ? [span.layout, span.start.toISOString(), span.end.toISOString(), 'due-reminders'] : []),
+                        ...quizLines,
+                      ].join('|'),
+                  ...(ruleVariant ? [ruleVariant] : []),
+                ].join('|'),
+              });
+
+              const keepReminders = submittedTreatment === 'keep';
+              const templateFields = {
+                name: nameField,
+                emoji: itemInfo.emoji,
+                label: itemInfo.label,
+                type: assignment.type,
+                course: assignment.context_name,
+                course_code: assignment.course_code,
+                course_id: origin.courseId,
+                points: pointsField,
+                due: allDayDate || dueLocal.readable,
+                status: statusField,
+                url: urlField,
+              };
+              const event = {
+                summary: rules.title ? renderTemplate(rules.title, templateFields) : `${itemInfo.emoji} ${nameField}`,
+                description: rules.description
+                  ? renderTemplate(rules.description, templateFields)
+                  : isCalendarEvent
+                    ? `${itemInfo.label}\n\n${allDayDate ? `All day: ${allDayDate}` : `Starts: ${dueLocal.readable}\nEnds: ${endLocal.readable}`}\nLocation: ${locationField || 'N/A'}\nCourse: ${assignment.context_name || 'N/A'}\n\nLink: ${urlField}`
+                    : `${itemInfo.label}\n\n${windowLines}Due: ${dueLocal.readable}\nPoints: ${pointsField}\n${quizLines.map(line => `${line}\n`).join('')}Course: ${assignment.context_name || 'N/A'}\nStatus: ${statusField}\n\nLink: ${urlField}`,
+                location: locationField || undefined,
+                ...eventTimes,
+                // Availability windows can span days, so they don't block the calendar unless asked to
+                transparency: (span.layout === 'availability' ? 'transparent' : 'opaque') as 'transparent' | 'opaque',
+                // Calendar events get the calendar's own default reminders, like any other meeting,
+                // unless a sync rule sets reminders
+                reminders: isCalendarEvent && !rules.reminders
+                  ? { useDefault: true }
+                  : {
+                      useDefault: false,
+                      // 1 day and 1 hour before the due time (or the rule's reminders), unless the
+                      // submitted-items policy drops them; a window starts earlier, so they count back from the due time
+                      overrides: keepReminders
+                        ? getReminderOffsets(span.start, dueDateUTC, rules.reminders || DEFAULT_REMINDER_MINUTES)
+                            .map(minutes => ({ method: 'popup', minutes }))
+                        : [],
+                    },
+                // null clears a grey we set earlier so the event goes back to the calendar color
+                colorId: submittedTreatment === 'recolor'
+                  ? SUBMITTED_COLOR_ID
+                  : rules.colorId ?? (existing?.colorId === SUBMITTED_COLOR_ID ? null : undefined),
+                extendedProperties: buildOriginProperties(origin, fingerprint),
+              };
+
+              if (!existing) {
+                pendingWrites.push({
+                  operation: { kind: 'insert', event, calendarId },
+                  entry: { action: 'create', item: syncMessage, reason: 'no event from an earlier sync', calendarId },
+                  onSuccess: () => {
+                    syncLog.info(`Created event in ${calendarId}: ${syncMessage}`);
+                    created.push(syncMessage);
+                  },
+                  onFailure: (error) => reportWriteFailure(nameField, error),
+                });
+              } else if (readFingerprint(existing) !== fingerprint || isMarkedStale(existing)) {
+                // Canvas item changed or came back
+                pendingWrites.push({
+                  operation: { kind: 'patch', eventId: existing.id, updates: event, calendarId },
+                  existing,
+                  entry: {
+                    action: 'update',
+                    item: syncMessage,
+                    reason: isMarkedStale(existing) ? 'back in Canvas after being marked removed' : 'changed since the last sync',
+                    calendarId,
+                    eventId: existing.id,
+                    changes: describeEventChanges(existing, event, timezone),
+                  },
+                  onSuccess: () => {
+                    syncLog.info(`Updated event ${existing.id}: ${syncMessage}`);
+                    updated.push(syncMessage);
+                  },
+                  onFailure: (error) => reportWriteFailure(nameField, error),
+                });
+              } else {
+                syncLog.debug(`Event ${existing.id} already up to date: ${syncMessage}`);
+                unchanged.push(syncMessage);
+                planEntries.push({ action: 'unchanged', item: syncMessage, reason: 'up to date', calendarId, eventId: existing.id });
+              }
+            } else {
+              skipItem(nameField, `outside ${daysAhead} day window - ${daysDiff} days away`);
+            }
+          } catch (error) {
+            const itemName = assignment.title || assignment.name || 'Unknown';
+            const errorMessage = error instanceof Error ? error.message : 'unknown';
+            syncLog.error(`Failed to sync "${itemName}"`, error);
+            skipped.push(`${itemName} (error: ${errorMessage})`);
+            planEntries.push({ action: 'skip', item: itemName, reason: `error: ${errorMessage}` });
+            // Don't treat its existing event as orphaned just because this run failed on it
+            activeOriginKeys.add(getOriginKey(origin));
+          }
+        }
+
+        await flushWrites();
+
+        // Reconcile: bridged events in the window whose Canvas item is gone or moved out of the window
+        if (staleEvents !== 'keep') {
+          syncLog.debug(`Reconciling stale events (policy: ${staleEvents})`);
+
+          // Plus any calendar a sync rule sent events to
+          const calendarsToReconcile = new Set<string>([
+            ...(perCourseCalendars ? courseCalendars.values() : [defaultCalendarId]),
+            ...existingByCalendar.keys(),
+          ]);
+          // Over-fetch by a day and apply the same zoned day-window check used for Canvas items
+          const listUntil = new Date(now.getTime() + (daysAhead + 2) * 24 * 60 * 60 * 1000);
+
+          for (const calendarId of calendarsToReconcile) {
+            if (calendarId.startsWith(PLANNED_CALENDAR_PREFIX)) continue;
+            const bridged = await calendarProvider.listBridgedEvents(now.toISOString(), listUntil.toISOString(), calendarId);
+
+            for (const existing of bridged) {
+              const existingOrigin = readOrigin(existing);
+              if (!existingOrigin || activeOriginKeys.has(getOriginKey(existingOrigin))
+                || !reconcilableCourseIds.has(String(existingOrigin.courseId))
+                || skippedItemTypes.includes(existingOrigin.itemType)) {
+                continue;
+              }
+
+              const startValue = existing.start?.dateTime || existing.start?.date;
+              const start = startValue ? new Date(startValue) : null;
+              if (!start || isNaN(start.getTime()) || start.getTime() <= now.getTime()
+                || getZonedDayDifference(now, start, timezone) > daysAhead) {
+                continue;
+              }
+
+              const label = `${existing.summary || 'Untitled'} (${startValue}, event ${existing.id})`;
+              const onFailure = (error: string) => {
+                syncLog.error(`Failed to reconcile ${label}: ${error}`);
+                skipped.push(`${label} (stale event cleanup failed: ${error})`);
+              };
+
+              if (staleEvents === 'delete') {
+                pendingWrites.push({
+                  operation: { kind: 'delete', eventId: existing.id, calendarId },
+                  existing,
+                  entry: { action: 'delete', item: label, reason: 'removed from Canvas or out of the window', calendarId, eventId: existing.id },
+                  onSuccess: () => {
+                    syncLog.info(`Deleted stale event ${label}`);
+                    removed.push(`${label} - deleted`);
+                  },
+                  onFailure,
+                });
+              } else if (!isMarkedStale(existing)) {
+                pendingWrites.push({
+                  operation: { kind: 'patch', eventId: existing.id, updates: buildStaleMarkUpdate(existing), calendarId },
+                  existing,
+                  entry: { action: 'mark_stale', item: label, reason: 'removed from Canvas or out of the window', calendarId, eventId: existing.id },
+                  onSuccess: () => {
+                    syncLog.info(`Marked stale event ${label}`);
+                    removed.push(`${label} - marked [Removed from Canvas]`);
+                  },
+                  onFailure,
+                });
+              }
+            }
+          }
+
+          await flushWrites();
+        }
+
+        const calendarLabel = perCourseCalendars ? 'per-course calendars' : `calendar ${defaultCalendarId}`;
+        if (dryRun) {
+          pruneSyncPlans();
+          const planId = randomUUID();
+          const plan: StoredSyncPlan = {
+            createdAt: new Date(),
+            description: `${calendarProvider.displayName} (${calendarLabel}, ${timezone}, ${daysAhead}-day window)`,
+            writes: plannedWrites,
+            newCalendars,
+          };
+          syncPlans.set(planId, plan);
+          syncLog.info(`Dry run complete: ${plannedWrites.length} write(s) planned as ${planId}`);
+          return formatSyncPlan(planId, plan, planEntries, warnings);
+        }
+
+        syncLog.info(`Sync complete: ${created.length} created, ${updated.length} updated, ${unchanged.length} unchanged, ${removed.length} stale handled, ${skipped.length} skipped, ${warnings.length} course(s) failed to load`);
 
-        const createdEvent = await googleClient.createEvent(event);
+        const journal = await recordSyncRun({
+          id: randomUUID(),
+          startedAt: startedAt.toISOString(),
+          finishedAt: new Date().toISOString(),
+          source: 'sync',
+          description: `${calendarProvider.displayName} (${calendarLabel}, ${timezone}, ${daysAhead}-day window)`,
+          changes: journalChanges,
+        });
+
+        let resultText = `Sync to ${calendarProvider.displayName} complete (${calendarLabel}, ${timezone}): ${created.length} created, ${updated.length} updated, ${unchanged.length} unchanged, ${removed.length} removed from Canvas.`;
+        if (syncRules) {
+          resultText += `\nSync rules: ${syncRules.rules.length} from ${syncRules.path}`;
+        }
+        if (created.length > 0) {
+          resultText += `\n\nCreated ${created.length} item(s):\n${created.join('\n')}`;
+        }
+        if (updated.length > 0) {
+          resultText += `\n\nUpdated ${updated.length} item(s):\n${updated.join('\n')}`;
+        }
+        if (unchanged.length > 0) {
+          resultText += `\n\nUnchanged ${unchanged.length} item(s):\n${unchanged.join('\n')}`;
+        }
+        if (removed.length > 0) {
+          resultText += `\n\nRemoved from Canvas ${removed.length} event(s):\n${removed.join('\n')}`;
+        }
+        if (skipped.length > 0) {
+          resultText += `\n\nSkipped ${skipped.length} item(s):\n${skipped.join('\n')}`;
+        }
+        resultText += formatCourseWarnings(warnings);
+        resultText += journal.text;
 
         return {
           content: [
             {
               type: 'text',
-              text: `Calendar event created successfully!\n\nTitle: ${title}\nStart: ${startTime}\nEnd: ${endTime}\nEvent ID: ${createdEvent.id}\nLink: ${createdEvent.htmlLink}`,
+              text: resultText,
             },
           ],
+          structuredContent: {
+            runId: journal.runId,
+            target: `${calendarProvider.displayName} (${calendarLabel}, ${timezone}, ${daysAhead}-day window)`,
+            created,
+            updated,
+            unchanged,
+            removed,
+            skipped,
+            warnings,
+          },
         };
       }
 
-      case 'list_calendar_events': {
-        const daysAhead = (args?.daysAhead as number) || 7;
-        const maxResults = (args?.maxResults as number) || 10;
-
-        const now = new Date();
-        const futureDate = new Date();
-        futureDate.setDate(futureDate.getDate() + daysAhead);
-
-        const events = await googleClient.listEvents(
-          now.toISOString(),
-          futureDate.toISOString(),
-          maxResults
-        );
+      case 'list_sync_runs': {
+        const runs = await syncJournal.list();
+        const timezone = await resolveTimezone();
+        const describeTime = (time: string) => convertToTimezone(time, timezone)?.readable || time;
+        const countChanges = (run: SyncRun) => {
+          const count = (kind: JournalChange['kind']) => run.changes.filter(change => change.kind === kind).length;
+          return `${count('created')} created, ${count('patched')} patched, ${count('deleted')} deleted`;
+        };
+        const describeUndo = (run: SyncRun) => {
+          if (run.undoneAt) return ` - undone ${describeTime(run.undoneAt)}`;
+          const undone = run.changes.filter(change => change.undoneAt).length;
+          return undone > 0 ? ` - partly undone (${undone} of ${run.changes.length})` : '';
+        };
 
-        if (!events.items || events.items.length === 0) {
+        if (args?.runId) {
+          const run = runs.find(candidate => candidate.id === args.runId);
+          if (!run) {
+            throw new Error(`No sync run "${args.runId}" in the journal (${syncJournal.getPath()})`);
+          }
+          const lines = run.changes.map(change => {
+            const undone = change.undoneAt
+              ? ` - undone${change.restoredEventId ? `, re-created as ${change.restoredEventId}` : ''}`
+              : '';
+            return `• ${change.kind} ${change.item} (event ${change.eventId} in ${change.calendarId})${undone}`;
+          });
           return {
             content: [
               {
                 type: 'text',
-                text: `No upcoming events found in the next ${daysAhead} days.`,
+                text: `Sync run ${run.id} (${run.source}): ${run.description}\nStarted ${describeTime(run.startedAt)}, finished ${describeTime(run.finishedAt)}${describeUndo(run)}\n${countChanges(run)}${lines.length > 0 ? `\n\n${lines.join('\n')}` : ''}`,
               },
             ],
           };
         }
 
-        const eventList = events.items.map((event: any) => {
-          const start = event.start.dateTime || event.start.date;
-          const end = event.end.dateTime || event.end.date;
-          return `• ${event.summary || 'Untitled'}\n  Start: ${start}\n  End: ${end}\n  ID: ${event.id}${event.htmlLink ? `\n  Link: ${event.htmlLink}` : ''}`;
-        }).join('\n\n');
+        const limit = (args?.limit as number) || 10;
+        if (runs.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No sync runs recorded yet (journal: ${syncJournal.getPath()}).`,
+              },
+            ],
+          };
+        }
 
+        const lines = runs.slice(0, limit).map(run =>
+          `• ${run.id} - ${describeTime(run.finishedAt)} - ${run.description}: ${countChanges(run)}${describeUndo(run)}`
+        );
         return {
           content: [
             {
               type: 'text',
-              text: `Found ${events.items.length} upcoming event(s) in the next ${daysAhead} days:\n\n${eventList}`,
+              text: `Last ${lines.length} of ${runs.length} sync run(s), newest first (journal: ${syncJournal.getPath()}):\n${lines.join('\n')}`,
             },
           ],
         };
       }
 
-      case 'update_calendar_event': {
-        const eventId = args?.eventId as string;
-        if (!eventId) {
-          throw new Error('eventId is required');
+      case 'undo_sync': {
+        const runs = await syncJournal.list();
+        const run = args?.runId
+          ? runs.find(candidate => candidate.id === args.runId)
+          : runs.find(candidate => !candidate.undoneAt && candidate.changes.length > 0);
+        if (!run) {
+          throw new Error(args?.runId
+            ? `No sync run "${args.runId}" in the journal (${syncJournal.getPath()})`
+            : 'There is no sync run to undo');
+        }
+        if (run.undoneAt) {
+          throw new Error(`Sync run ${run.id} was already undone`);
         }
 
-        const updates: any = {};
+        const pending = run.changes
+          .map((change, index) => ({ change, index }))
+          .filter(({ change }) => !change.undoneAt);
 
-        if (args?.title) {
-          updates.summary = args.title as string;
+        // Undoing would silently overwrite what later runs did to the same events
+        const eventIds = new Set(pending.map(({ change }) => change.eventId));
+        const laterRuns = runs.slice(0, runs.indexOf(run))
+          .filter(other => other.changes.some(change => !change.undoneAt && eventIds.has(change.eventId)));
+        if (laterRuns.length > 0 && args?.force !== true) {
+          throw new Error(`Later sync run(s) changed the same events: ${laterRuns.map(other => other.id).join(', ')}. Undo those first, or pass force: true.`);
         }
-        if (args?.description !== undefined) {
-          updates.description = args.description as string;
+
+        // Revert in reverse order, so an event patched twice ends up with its oldest values
+        const ordered = [...pending].reverse();
+        const operations = ordered.map(({ change }) => buildUndoOperation(change));
+        syncLog.info(`Undoing ${operations.length} change(s) of sync run ${run.id}`);
+
+        let results: BatchResult[];
+        try {
+          results = await calendarProvider.batch(operations);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'unknown';
+          results = operations.map(() => ({ ok: false, error: errorMessage }));
         }
-        if (args?.startTime) {
-          const timezone = (args?.timezone as string) || 'America/New_York';
-          updates.start = {
-            dateTime: args.startTime as string,
-            timeZone: timezone,
-          };
+
+        const undone: Array<{ index: number; restoredEventId?: string }> = [];
+        const reverted: string[] = [];
+        const failed: string[] = [];
+        results.forEach((result, position) => {
+          const { change, index } = ordered[position];
+          if (!result.ok) {
+            syncLog.error(`Could not undo ${change.kind} of "${change.item}": ${result.error}`);
+            failed.push(`${change.item} (${change.kind}, event ${change.eventId}): ${result.error}`);
+            return;
+          }
+          const restoredEventId = change.kind === 'deleted' ? result.data?.id : undefined;
+          undone.push({ index, restoredEventId });
+          reverted.push(change.kind === 'created'
+            ? `${change.item} - deleted`
+            : change.kind === 'patched'
+              ? `${change.item} - previous values restored`
+              : `${change.item} - re-created as ${restoredEventId}`);
+        });
+        await syncJournal.markUndone(run.id, undone, new Date().toISOString());
+
+        let text = `Undid ${undone.length} of ${pending.length} change(s) of sync run ${run.id} (${run.description}).`;
+        if (reverted.length > 0) {
+          text += `\n\n${reverted.join('\n')}`;
         }
-        if (args?.endTime) {
-          const timezone = (args?.timezone as string) || 'America/New_York';
-          updates.end = {
-            dateTime: args.endTime as string,
-            timeZone: timezone,
-          };
+        if (failed.length > 0) {
+          text += `\n\nFailed ${failed.length} (run undo_sync again to retry them):\n${failed.join('\n')}`;
         }
-
-        const updatedEvent = await googleClient.updateEvent(eventId, updates);
+        text += run.source === 'study_blocks'
+          ? '\n\nRunning schedule_study_blocks again plans new blocks.'
+          : '\n\nThe next sync_to_calendar with the same arguments will make the same changes again.';
 
         return {
           content: [
             {
               type: 'text',
-              text: `Event updated successfully!\n\nEvent ID: ${eventId}\nTitle: ${updatedEvent.summary}\nLink: ${updatedEvent.htmlLink}`,
+              text,
             },
           ],
         };
       }
 
-      case 'delete_calendar_event': {
-        const eventId = args?.eventId as string;
-        if (!eventId) {
-          throw new Error('eventId is required');
+      case 'get_sync_rules': {
+        if (!syncRules) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No sync rules are loaded. Set SYNC_RULES_FILE or call reload_sync_rules with a path to a .json or .yaml rules file.',
+              },
+            ],
+          };
         }
 
-        await googleClient.deleteEvent(eventId);
-
+        const lines = syncRules.rules.map(describeRule);
         return {
           content: [
             {
               type: 'text',
-              text: `Event deleted successfully!\n\nEvent ID: ${eventId}`,
+              text: `Sync rules from ${syncRules.path} (loaded ${syncRules.loadedAt.toISOString()})\nDefault window: ${syncRules.daysAhead ?? 14} days\n\n${syncRules.rules.length} rule(s), applied in order (later rules override earlier ones):\n${lines.join('\n') || '(none)'}`,
             },
           ],
         };
       }
 
-      // Canvas Integration
-      case 'get_canvas_assignments': {
-        console.error('\n=================================================================================');
-        console.error('[get_canvas_assignments] Tool called');
-        console.error('=================================================================================');
+      case 'reload_sync_rules': {
+        const rulesPath = (args?.path as string) || syncRules?.path || process.env.SYNC_RULES_FILE;
+        if (!rulesPath) {
+          throw new Error('No rules file to load. Pass a path or set SYNC_RULES_FILE.');
+        }
+
+        // Validation errors throw here, before the active rules are replaced
+        syncRules = await loadSyncRules(rulesPath);
+        rulesLog.info(`Loaded ${syncRules.rules.length} sync rule(s) from ${syncRules.path}`);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Loaded ${syncRules.rules.length} sync rule(s) from ${syncRules.path}:\n${syncRules.rules.map(describeRule).join('\n') || '(none)'}`,
+            },
+          ],
+        };
+      }
 
-        const assignments = await canvasClient.getUpcomingAssignments();
+      case 'schedule_study_blocks': {
+        const preview = args?.preview === true;
+        const daysAhead = (args?.daysAhead as number) || 14;
+        const timezone = await resolveTimezone(args?.timezone);
+        const calendarId = (args?.calendarId as string) || calendarProvider.getDefaultCalendarId();
+        const workingHours = readWorkingHours(args);
+        const dailyCapMinutes = (args?.dailyCapMinutes as number) || 240;
+        const minBlockMinutes = (args?.minBlockMinutes as number) || 30;
+        const maxBlockMinutes = (args?.maxBlockMinutes as number) || 120;
+        for (const [name, value] of Object.entries({ dailyCapMinutes, minBlockMinutes, maxBlockMinutes })) {
+          if (!Number.isFinite(value) || value <= 0) {
+            throw new Error(`${name} must be a positive number of minutes`);
+          }
+        }
+        if (minBlockMinutes > maxBlockMinutes) {
+          throw new Error('minBlockMinutes must not be larger than maxBlockMinutes');
+        }
+        const busyCalendarIds = args?.busyCalendarIds as string[] | undefined;
+        if (busyCalendarIds !== undefined && (!Array.isArray(busyCalendarIds) || busyCalendarIds.some(id => typeof id !== 'string'))) {
+          throw new Error('busyCalendarIds must be an array of calendar IDs');
+        }
+        const overrides = (args?.effortOverrides || {}) as { courses?: { [course: string]: number }; types?: { [type: string]: number } };
 
-        console.error('[get_canvas_assignments] Received assignments from Canvas client:', assignments.length);
+        const now = new Date();
+        // Start on a quarter hour so blocks line up with the rest of the calendar
+        const rangeStart = roundUpToMinutes(now.getTime(), 15);
+
+        const { items, loadedCourseIds, warnings } = await canvasClient.getUpcomingAssignments(readCourseFilter(args));
+        const skipped: string[] = [];
+        const dueTime = (item: any) => Date.parse(item.due_at || item.assignment?.due_at);
+        const itemName = (item: any) => item.title || item.name || item.assignment?.name || 'Unknown';
+
+        // Same window rule as sync_to_calendar; calendar events need no preparation time
+        const candidates = items.filter((item: any) => {
+          const due = dueTime(item);
+          if (item.type === 'event' || isNaN(due) || due <= rangeStart
+            || getZonedDayDifference(now, new Date(due), timezone) > daysAhead) {
+            return false;
+          }
+          if (item.submitted && args?.includeSubmitted !== true) {
+            skipped.push(`${itemName(item)} (already submitted)`);
+            return false;
+          }
+          return true;
+        });
 
-        if (!assignments || assignments.length === 0) {
-          console.error('[get_canvas_assignments] No assignments returned, sending empty response to user');
+        if (candidates.length === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: 'No upcoming assignments or quizzes found in Canvas.',
+                text: `No unsubmitted Canvas items due in the next ${daysAhead} days, nothing to plan.` + formatCourseWarnings(warnings),
               },
             ],
           };
         }
 
-        // Debug: Log all assignments to see the structure
-        console.error('[get_canvas_assignments] All assignments received:');
-        assignments.forEach((item: any, index: number) => {
-          console.error(`  Assignment ${index + 1}/${assignments.length}:`, {
-            id: item.id,
-            title: item.title,
-            name: item.name,
-            type: item.type,
-            due_at: item.due_at,
-            start_at: item.start_at,
-            points: item.points_possible,
-            course: item.context_name,
-            has_assignment_obj: !!item.assignment,
-            all_keys: Object.keys(item)
+        // Blocks are only ever placed before the last deadline
+        const rangeEnd = Math.max(...candidates.map(dueTime));
+
+        // Future study blocks from earlier runs (for the courses loaded this time) get replaced, so
+        // their time counts as free. Blocks already under way are left alone.
+        const loadedCourses = new Set(loadedCourseIds.map(String));
+        const listUntil = new Date(Math.max(rangeEnd, now.getTime() + (daysAhead + 2) * 24 * 60 * 60 * 1000));
+        const previousBlocks = (await calendarProvider.listBridgedEvents(now.toISOString(), listUntil.toISOString(), calendarId, STUDY_BLOCK_MARKER_KEY))
+          .filter(event => {
+            const courseId = readStudyBlockCourseId(event);
+            const start = Date.parse(event.start?.dateTime || event.start?.date);
+            return courseId !== null && loadedCourses.has(String(courseId)) && start >= now.getTime();
           });
-        });
-
-        // Format the assignments for better readability (all in EST)
-        // Filter out items without valid due dates
-        console.error('\n[get_canvas_assignments] Starting formatting and EST conversion...');
-
-        const formatted = assignments
-          .map((item: any, index: number) => {
-            console.error(`\n[get_canvas_assignments] Processing item ${index + 1}/${assignments.length}:`, item.title || item.name);
-
-            // Canvas upcoming_events can have fields at different levels
-            const dueAtField = item.due_at || item.assignment?.due_at;
-            const nameField = item.title || item.name || item.assignment?.name;
-
-            console.error(`  - due_at field:`, dueAtField);
-            console.error(`  - name field:`, nameField);
-
-            // Only include items with due dates
-            if (!dueAtField) {
-              console.error(`  - [FILTERED OUT] No due date found`, {
-                has_due_at: !!item.due_at,
-                has_assignment_due_at: !!item.assignment?.due_at,
-                all_keys: Object.keys(item)
-              });
-              return null;
-            }
-
-            // Get type-specific emoji and label
-            const typeDisplay: { [key: string]: string } = {
-              'assignment': '📚 Assignment',
-              'quiz': '📝 Quiz',
-              'discussion': '💬 Discussion',
-              'event': '📅 Event'
-            };
-
-            const itemType = typeDisplay[item.type] || '📄 Unknown';
-            console.error(`  - Item type:`, itemType, '(raw:', item.type, ')');
-
-            // Convert UTC date to EST
-            console.error(`  - Converting to EST:`, dueAtField);
-            const estDate = convertToEST(dueAtField);
-
-            // If conversion failed, skip this item
-            if (!estDate) {
-              console.error(`  - [FILTERED OUT] EST conversion failed for due_at:`, dueAtField);
-              return null;
-            }
 
-            console.error(`  - EST conversion successful:`, estDate.readable);
-
-            const formattedItem = {
-              type: itemType,
-              name: nameField,
-              due_date_est: estDate.readable,
-              points: item.points_possible || item.assignment?.points_possible || 'N/A',
-              course: item.context_name || 'N/A',
-              url: item.html_url || item.assignment?.html_url,
-              description: item.description ? item.description.substring(0, 100) + '...' : 'No description',
-            };
+        const busyTime = await loadBusyTime(busyCalendarIds, new Date(rangeStart), new Date(rangeEnd), calendarId);
+        const previousSlots = normalizeBusy(previousBlocks.map(event => ({ start: event.start?.dateTime, end: event.end?.dateTime })));
+        const busy = subtractSlots(normalizeBusy(busyTime.busy), previousSlots)
+          .map(slot => ({ start: new Date(slot.start).toISOString(), end: new Date(slot.end).toISOString() }));
+        const freeSlots = findFreeSlots(rangeStart, rangeEnd, busy, workingHours, timezone, minBlockMinutes);
+
+        const plan = planStudyBlocks(candidates, freeSlots, {
+          dailyCapMinutes,
+          minBlockMinutes,
+          maxBlockMinutes,
+          timeZone: timezone,
+          effort: {
+            minutesPerPoint: (args?.minutesPerPoint as number) || DEFAULT_MINUTES_PER_POINT,
+            courseOverrides: overrides.courses,
+            typeOverrides: overrides.types,
+          },
+        });
+        const effortByItem = new Map(plan.estimates.map(estimate => [estimate.item, estimate.effortMinutes]));
+        const plannedMinutes = plan.blocks.reduce((total, block) => total + (block.end - block.start) / 60000, 0);
 
-            console.error(`  - [INCLUDED] Successfully formatted item:`, {
-              name: formattedItem.name,
-              type: formattedItem.type,
-              due: formattedItem.due_date_est
-            });
+        studyLog.info(`Planned ${plan.blocks.length} block(s) (${plannedMinutes} min) for ${candidates.length} item(s) across ${busyTime.calendarIds.length} busy calendar(s); ${plan.shortfalls.length} item(s) short of time`);
 
-            return formattedItem;
-          })
-          .filter((item: any) => item !== null); // Remove nulls from failed conversions
+        const planLines = plan.blocks.map(block => {
+          const start = convertToTimezone(new Date(block.start).toISOString(), timezone);
+          const parts = block.parts > 1 ? ` (part ${block.part}/${block.parts})` : '';
+          return `• ${start?.readable} - ${formatMinutes((block.end - block.start) / 60000)}: Work on ${itemName(block.item)}${parts} [${block.item.context_name || 'N/A'}]`;
+        });
+        const shortfallLines = plan.shortfalls.map(shortfall => {
+          const due = convertToTimezone(new Date(dueTime(shortfall.item)).toISOString(), timezone);
+          return `• ${itemName(shortfall.item)} (due ${due?.readable}): ${formatMinutes(shortfall.unscheduledMinutes)} of ${formatMinutes(shortfall.effortMinutes)} could not be placed`;
+        });
 
-        console.error('\n[get_canvas_assignments] Formatting complete:');
-        console.error('  - Total items received:', assignments.length);
-        console.error('  - Successfully formatted:', formatted.length);
-        console.error('  - Filtered out:', assignments.length - formatted.length);
+        let resultText = `Study plan (${timezone}, ${formatClock(workingHours.startMinutes)}-${formatClock(workingHours.endMinutes)}, up to ${formatMinutes(dailyCapMinutes)} per day): ${plan.blocks.length} block(s), ${formatMinutes(plannedMinutes)} in total for ${candidates.length} item(s).`;
+        if (planLines.length > 0) {
+          resultText += `\n\n${planLines.join('\n')}`;
+        }
+        if (shortfallLines.length > 0) {
+          resultText += `\n\nNot enough free time before the deadline for ${shortfallLines.length} item(s):\n${shortfallLines.join('\n')}`;
+        }
+        if (skipped.length > 0) {
+          resultText += `\n\nSkipped ${skipped.length} item(s):\n${skipped.join('\n')}`;
+        }
 
-        if (formatted.length === 0) {
-          console.error('[get_canvas_assignments] No valid items after formatting, sending message to user');
+        if (preview) {
+          resultText += `\n\nPreview only, nothing was written. Applying this plan adds ${plan.blocks.length} block(s) to ${calendarId}`
+            + (previousBlocks.length > 0 ? ` and replaces ${previousBlocks.length} study block(s) from an earlier run.` : '.');
           return {
             content: [
               {
                 type: 'text',
-                text: 'Found assignments/quizzes but none have valid due dates.',
+                text: resultText + formatBusyErrors(busyTime.errors) + formatCourseWarnings(warnings),
               },
             ],
           };
         }
 
-        console.error('[get_canvas_assignments] Sending', formatted.length, 'formatted items to user');
-        console.error('=================================================================================\n');
+        const operations: BatchOperation[] = [
+          ...previousBlocks.map(event => ({ kind: 'delete' as const, eventId: event.id, calendarId })),
+          ...plan.blocks.map(block => {
+            const name = itemName(block.item);
+            const due = convertToTimezone(new Date(dueTime(block.item)).toISOString(), timezone);
+            const origin = {
+              courseId: block.item.course_id ?? block.item.assignment?.course_id,
+              assignmentId: block.item.id,
+              itemType: block.item.type,
+            };
+            const event = {
+              summary: `📖 Work on ${name}`,
+              description: `Study block ${block.part} of ${block.parts} for ${name}\n\nDue: ${due?.readable}\nCourse: ${block.item.context_name || 'N/A'}\nEstimated effort: ${formatMinutes(effortByItem.get(block.item) || 0)}\n\nLink: ${block.item.html_url || block.item.assignment?.html_url || ''}\n\nPlanned by schedule_study_blocks; running it again replaces this block.`,
+              start: {
+                dateTime: convertToTimezone(new Date(block.start).toISOString(), timezone)!.datetime,
+                timeZone: timezone,
+              },
+              end: {
+                dateTime: convertToTimezone(new Date(block.end).toISOString(), timezone)!.datetime,
+                timeZone: timezone,
+              },
+              reminders: {
+                useDefault: false,
+                overrides: [{ method: 'popup', minutes: 10 }],
+              },
+              extendedProperties: buildStudyBlockProperties(origin),
+            };
+            return { kind: 'insert' as const, event, calendarId };
+          }),
+        ];
+
+        const startedAt = new Date();
+        const results = operations.length > 0 ? await calendarProvider.batch(operations) : [];
+        const failures = results
+          .map((result, index) => result.ok ? null : `${operations[index].kind === 'delete' ? 'Removing an earlier block' : 'Creating a block'} failed: ${result.error}`)
+          .filter((failure): failure is string => failure !== null);
+        const createdCount = results.filter((result, index) => result.ok && operations[index].kind === 'insert').length;
+        const replacedCount = results.filter((result, index) => result.ok && operations[index].kind === 'delete').length;
+        failures.forEach(failure => studyLog.error(failure));
+
+        resultText += `\n\nCreated ${createdCount} study block(s) in ${calendarId}` + (replacedCount > 0 ? `, replacing ${replacedCount} from an earlier run.` : '.');
+        if (failures.length > 0) {
+          resultText += `\n\n${failures.length} calendar write(s) failed:\n${failures.map(failure => `• ${failure}`).join('\n')}`;
+        }
+
+        // Deleted earlier blocks come first in the operations, in the order of previousBlocks
+        const journalChanges = results.flatMap((result, index) => {
+          if (!result.ok) return [];
+          const operation = operations[index];
+          const existing = operation.kind === 'delete' ? previousBlocks[index] : undefined;
+          const item = operation.kind === 'insert' ? operation.event.summary || 'Study block' : existing?.summary || 'Study block';
+          return [toJournalChange(operation, existing, result.data, item)];
+        });
+        const journal = await recordSyncRun({
+          id: randomUUID(),
+          startedAt: startedAt.toISOString(),
+          finishedAt: new Date().toISOString(),
+          source: 'study_blocks',
+          description: `Study blocks in ${calendarId} (${timezone}, ${daysAhead}-day window)`,
+          changes: journalChanges,
+        });
+        resultText += journal.text;
 
         return {
           content: [
             {
               type: 'text',
-              text: `Found ${formatted.length} upcoming item(s) with due dates (times shown in EST):\n\n` + JSON.stringify(formatted, null, 2),
+              text: resultText + formatBusyErrors(busyTime.errors) + formatCourseWarnings(warnings),
             },
           ],
         };
       }
 
-      case 'sync_to_calendar': {
-        console.error('\n=================================================================================');
-        console.error('[sync_to_calendar] Tool called with daysAhead:', args?.daysAhead || 14);
-        console.error('=================================================================================');
-
-        const daysAhead = (args?.daysAhead as number) || 14;
-        const assignments = await canvasClient.getUpcomingAssignments();
-
-        const synced = [];
-        const skipped = [];
-
-        console.error('[sync_to_calendar] Total assignments retrieved:', assignments.length);
-        console.error('[sync_to_calendar] Days ahead window:', daysAhead);
-
-        if (assignments.length > 0) {
-          console.error('\n[sync_to_calendar] First assignment structure (for debugging):');
-          console.error(JSON.stringify(assignments[0], null, 2));
-        }
-
-        console.error('\n[sync_to_calendar] Starting sync process...\n');
-
-        for (const assignment of assignments) {
-          try {
-            const assignmentName = assignment.title || assignment.name || 'UNKNOWN';
-            console.error(`\n--- Processing: "${assignmentName}" ---`);
-
-            // Debug: Log what fields exist in this assignment
-            console.error(`  Fields available:`, {
-              has_due_at: !!assignment.due_at,
-              has_assignment: !!assignment.assignment,
-              due_at_value: assignment.due_at,
-              assignment_due_at: assignment.assignment?.due_at,
-              type: assignment.type,
-              all_keys: Object.keys(assignment)
-            });
-
-            // Canvas upcoming_events can have due_at at different levels
-            // Check both top-level and nested assignment.due_at
-            const dueAtField = assignment.due_at || assignment.assignment?.due_at;
-            const nameField = assignment.title || assignment.name || assignment.assignment?.name;
-
-            console.error(`  Due date field:`, dueAtField);
-            console.error(`  Name field:`, nameField);
-
-            if (!dueAtField) {
-              const skipReason = `${nameField || 'Unknown'} (no due date - checked due_at and assignment.due_at)`;
-              console.error(`  [SKIPPED]`, skipReason);
-              skipped.push(skipReason);
-              continue;
-            }
-
-            const dueDateUTC = new Date(dueAtField);
-            console.error(`  Parsed UTC date:`, dueDateUTC.toISOString());
-
-            // Validate the date
-            if (isNaN(dueDateUTC.getTime())) {
-              const skipReason = `${nameField} (invalid due date: ${dueAtField})`;
-              console.error(`  [SKIPPED]`, skipReason);
-              skipped.push(skipReason);
-              continue;
-            }
-
-            const now = new Date();
-            const daysDiff = Math.ceil((dueDateUTC.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-            console.error(`  Days from now:`, daysDiff, '(window:', daysAhead, 'days)');
-
-            if (daysDiff <= daysAhead && daysDiff > 0) {
-              console.error(`  [IN WINDOW] Within ${daysAhead} day window, proceeding to create event`);
-
-              // Convert UTC due date to EST
-              console.error(`  Converting due date to EST:`, dueAtField);
-              const dueEST = convertToEST(dueAtField);
-
-              // Check if conversion succeeded
-              if (!dueEST) {
-                const skipReason = `${nameField} (date conversion failed)`;
-                console.error(`  [SKIPPED]`, skipReason);
-                skipped.push(skipReason);
-                continue;
-              }
-
-              console.error(`  EST due time:`, dueEST.readable);
-
-              // Create event AT the actual due time in EST
-              const eventStart = dueEST.datetime;
-
-              // End time: 1 hour after start
-              const endDate = new Date(dueDateUTC.getTime() + 60 * 60 * 1000);
-              const endEST = convertToEST(endDate.toISOString());
-
-              if (!endEST) {
-                const skipReason = `${nameField} (end date conversion failed)`;
-                console.error(`  [SKIPPED]`, skipReason);
-                skipped.push(skipReason);
-                continue;
-              }
-
-              const eventEnd = endEST.datetime;
-              console.error(`  Event start:`, eventStart);
-              console.error(`  Event end:`, eventEnd);
-
-              // Get type-specific info (emoji and label)
-              const typeInfo: { [key: string]: { emoji: string; label: string } } = {
-                'assignment': { emoji: '📚', label: 'Canvas Assignment' },
-                'quiz': { emoji: '📝', label: 'Canvas Quiz' },
-                'discussion': { emoji: '💬', label: 'Canvas Discussion' },
-                'event': { emoji: '📅', label: 'Calendar Event' }
-              };
-
-              const itemInfo = typeInfo[assignment.type] || typeInfo['event'];
-
-              const event = {
-                summary: `${itemInfo.emoji} ${nameField}`,
-                description: `${itemInfo.label}\n\nDue: ${dueEST.readable} EST\nPoints: ${assignment.points_possible || assignment.assignment?.points_possible || 'N/A'}\nCourse: ${assignment.context_name || 'N/A'}\n\nLink: ${assignment.html_url || assignment.assignment?.html_url || ''}`,
-                start: {
-                  dateTime: eventStart,
-                  timeZone: 'America/New_York',
-                },
-                end: {
-                  dateTime: eventEnd,
-                  timeZone: 'America/New_York',
-                },
-                reminders: {
-                  useDefault: false,
-                  overrides: [
-                    { method: 'popup', minutes: 24 * 60 }, // 1 day before
-                    { method: 'popup', minutes: 60 },      // 1 hour before
-                  ],
-                },
-              };
+      case 'export_ics': {
+        const timezone = await resolveTimezone(args?.timezone);
+        const daysAhead = args?.daysAhead as number | undefined;
+        const outputPath = args?.path as string | undefined;
+        const now = new Date();
 
-              console.error(`  Creating calendar event with summary: "${event.summary}"`);
-              await googleClient.createEvent(event);
-              const syncMessage = `${nameField} (${itemInfo.label}) - Due: ${dueEST.readable}`;
-              console.error(`  [SYNCED]`, syncMessage);
-              synced.push(syncMessage);
-            } else {
-              const skipReason = `${nameField} (outside ${daysAhead} day window - ${daysDiff} days away)`;
-              console.error(`  [SKIPPED]`, skipReason);
-              skipped.push(skipReason);
-            }
-          } catch (error) {
-            const itemName = assignment.title || assignment.name || 'Unknown';
-            const errorMessage = error instanceof Error ? error.message : 'unknown';
-            console.error(`  [ERROR] syncing "${itemName}":`, errorMessage);
-            console.error(`  Error details:`, error);
-            skipped.push(`${itemName} (error: ${errorMessage})`);
-          }
-        }
+        // Same window rule as sync_to_calendar: due in the future, within daysAhead calendar days
+        const { items, warnings } = await canvasClient.getUpcomingAssignments(readCourseFilter(args));
+        const assignments = items.filter((item: any) => {
+          const dueDate = new Date(item.due_at || item.assignment?.due_at);
+          if (isNaN(dueDate.getTime()) || dueDate.getTime() <= now.getTime()) return false;
+          return daysAhead === undefined || getZonedDayDifference(now, dueDate, timezone) <= daysAhead;
+        });
 
-        console.error('\n=================================================================================');
-        console.error('[sync_to_calendar] Sync complete:');
-        console.error('  - Successfully synced:', synced.length);
-        console.error('  - Skipped:', skipped.length);
-        console.error('=================================================================================\n');
+        const { ics, eventCount } = buildIcsCalendar(assignments, { timeZone: timezone, now, eventLayouts: readEventLayouts(args) });
+        createLogger('export_ics').info(`Built calendar with ${eventCount} event(s) in ${timezone}`);
 
-        let resultText = `Successfully synced ${synced.length} item(s) to Google Calendar (EST timezone):\n\n`;
-        if (synced.length > 0) {
-          resultText += synced.join('\n');
-        }
-        if (skipped.length > 0) {
-          resultText += `\n\nSkipped ${skipped.length} item(s):\n${skipped.join('\n')}`;
+        if (outputPath) {
+          const resolvedPath = path.resolve(outputPath);
+          await writeFile(resolvedPath, ics, 'utf8');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Exported ${eventCount} Canvas item(s) to ${resolvedPath} (${timezone}).\n\nImport it into Apple Calendar, Outlook or Thunderbird, or serve it over HTTP to subscribe.` + formatCourseWarnings(warnings),
+              },
+            ],
+          };
         }
 
         return {
           content: [
             {
               type: 'text',
-              text: resultText,
+              text: `Exported ${eventCount} Canvas item(s) (${timezone}).${formatCourseWarnings(warnings)}\n\nSave the following as a .ics file:\n\n${ics}`,
             },
           ],
         };
@@ -738,6 +2836,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         throw new Error(`Unknown tool: ${name}`);
     }
   } catch (error) {
+    log.error('Tool failed', error);
     return {
       content: [
         {
@@ -748,16 +2847,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
 
 // Start server
 async function main() {
+  // A broken or locked token store shouldn't keep the Canvas tools from starting
+  try {
+    await googleClient.loadStoredTokens();
+  } catch (error) {
+    log.error('Could not load stored Google credentials', error);
+  }
+
+  // An invalid rules file stops the server, so a typo never silently syncs everything
+  if (process.env.SYNC_RULES_FILE) {
+    syncRules = await loadSyncRules(process.env.SYNC_RULES_FILE);
+    rulesLog.info(`Loaded ${syncRules.rules.length} sync rule(s) from ${syncRules.path}`);
+  }
+
+  // A command runs once and exits (setting exitCode lets stdout finish writing); none starts the server
+  if (cliArgs.length > 0) {
+    process.exitCode = await runCli(cliArgs, callToolFromCli);
+    return;
+  }
+
+  const refreshIntervalMs = parseInterval(process.env.CANVAS_RESOURCE_REFRESH || DEFAULT_RESOURCE_REFRESH);
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error('Canvas Calendar Bridge MCP Server running on stdio');
+  canvasResources.start(refreshIntervalMs);
+  log.info('Canvas Calendar Bridge MCP Server running on stdio');
 }
 
 main().catch((error) => {
-  console.error('Server error:', error);
+  log.error('Server error', error);
   process.exit(1);
 });
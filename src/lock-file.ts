@@ -0,0 +1,89 @@
+// Cross-process lock file, so calendar writes from the MCP server, the CLI and the daemon never overlap.
+// The file holds the PID of its owner; a lock left behind by a process that no longer runs is taken over.
+
+import { mkdir, open, readFile, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { createLogger } from './logger.js';
+import { getConfigDirectory } from './token-store.js';
+
+const log = createLogger('lock');
+
+const LOCK_FILE = 'sync.lock';
+// A lock file without readable owner info this young is still being written by its owner
+const UNREADABLE_LOCK_GRACE_MS = 10 * 1000;
+
+export interface LockHandle {
+  path: string;
+  release(): Promise<void>;
+}
+
+interface LockOwner {
+  pid: number;
+  label: string;
+  startedAt: string;
+}
+
+export function getDefaultLockPath(): string {
+  return path.join(getConfigDirectory(), LOCK_FILE);
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function readOwner(filePath: string): Promise<LockOwner | null> {
+  try {
+    const owner = JSON.parse(await readFile(filePath, 'utf8'));
+    return Number.isInteger(owner?.pid) ? owner : null;
+  } catch {
+    return null;
+  }
+}
+
+// Take the lock or throw if another running process holds it. `label` describes the holder in that error.
+export async function acquireLockFile(filePath: string, label: string): Promise<LockHandle> {
+  await mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      const handle = await open(filePath, 'wx', 0o600);
+      try {
+        await handle.writeFile(JSON.stringify({ pid: process.pid, label, startedAt: new Date().toISOString() }));
+      } finally {
+        await handle.close();
+      }
+      log.debug(`Acquired ${filePath} for ${label}`);
+      return {
+        path: filePath,
+        release: async () => {
+          await rm(filePath, { force: true });
+          log.debug(`Released ${filePath}`);
+        },
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    const owner = await readOwner(filePath);
+    if (owner && isProcessRunning(owner.pid)) {
+      throw new Error(`${owner.label} is already running (pid ${owner.pid}, since ${owner.startedAt}). Lock file: ${filePath}`);
+    }
+    if (!owner) {
+      const age = await stat(filePath).then(info => Date.now() - info.mtimeMs, () => Infinity);
+      if (age < UNREADABLE_LOCK_GRACE_MS) {
+        throw new Error(`Another process is taking the lock right now. Lock file: ${filePath}`);
+      }
+    }
+
+    log.warn(`Removing stale lock file ${filePath}${owner ? ` (pid ${owner.pid} is no longer running)` : ''}`);
+    await rm(filePath, { force: true });
+  }
+
+  throw new Error(`Could not acquire lock file ${filePath}`);
+}
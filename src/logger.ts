@@ -0,0 +1,138 @@
+// Leveled logger for the MCP server. Everything goes to stderr (stdout carries the MCP protocol).
+//
+// LOG_LEVEL   error | warn | info | debug | trace (default: info)
+// LOG_FORMAT  text | json (json writes one JSON object per line)
+//
+// Credentials (bearer tokens, OAuth refresh/access tokens and codes, Canvas API tokens) are
+// redacted from every message and data field before it is written.
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug', 'trace'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+const REDACTED = '[REDACTED]';
+
+// Object keys whose values are always secret
+const SECRET_KEYS = /^(authorization|access_token|refresh_token|id_token|code|code_verifier|client_secret|password|passphrase|api_?token|token)$/i;
+
+// Secrets embedded in free text (error messages, URLs, response bodies)
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+  [/([?&](?:access_token|refresh_token|code|code_verifier|client_secret)=)[^&\s"']+/gi, `$1${REDACTED}`],
+  [/("(?:access_token|refresh_token|id_token|code|code_verifier|client_secret)"\s*:\s*")[^"]*"/gi, `$1${REDACTED}"`],
+  // Google access tokens, refresh tokens and authorization codes
+  [/ya29\.[A-Za-z0-9._-]+/g, REDACTED],
+  [/\b1\/\/[A-Za-z0-9._-]{20,}/g, REDACTED],
+  [/\b4\/[A-Za-z0-9._-]{20,}/g, REDACTED],
+  // Canvas access tokens ("<account id>~<64 characters>")
+  [/\b\d+~[A-Za-z0-9]{32,}/g, REDACTED],
+];
+
+export function redactText(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+// Deep copy of `value` with secret fields and embedded secrets redacted
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message), ...(value.stack ? { stack: redactText(value.stack) } : {}) };
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth > 8) return '[Truncated]';
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] = SECRET_KEYS.test(key) && field ? REDACTED : redact(field, depth + 1);
+  }
+  return result;
+}
+
+function readLevel(): LogLevel {
+  const configured = (process.env.LOG_LEVEL || 'info').toLowerCase();
+  if ((LOG_LEVELS as readonly string[]).includes(configured)) {
+    return configured as LogLevel;
+  }
+  process.stderr.write(`Invalid LOG_LEVEL "${process.env.LOG_LEVEL}", using info. Use one of: ${LOG_LEVELS.join(', ')}\n`);
+  return 'info';
+}
+
+// Read on first use rather than at import, so settings loaded from .env by dotenv apply
+let settings: { threshold: number; json: boolean } | null = null;
+
+function getSettings() {
+  if (!settings) {
+    settings = {
+      threshold: LOG_LEVELS.indexOf(readLevel()),
+      json: (process.env.LOG_FORMAT || 'text').toLowerCase() === 'json',
+    };
+  }
+  return settings;
+}
+
+// Correlation context for the request being handled (set per tool call)
+interface LogContext {
+  requestId: string;
+  tool?: string;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+// Run `fn` with a fresh correlation ID attached to every line it logs, including from awaited calls
+export function withLogContext<T>(context: { tool?: string; requestId?: string }, fn: () => T): T {
+  return contextStorage.run({ requestId: context.requestId || randomUUID().slice(0, 8), tool: context.tool }, fn);
+}
+
+export function isLevelEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= getSettings().threshold;
+}
+
+function write(level: LogLevel, scope: string, message: string, data?: unknown): void {
+  if (!isLevelEnabled(level)) return;
+
+  const context = contextStorage.getStore();
+  const safeMessage = redactText(message);
+  const safeData = data === undefined ? undefined : redact(data);
+
+  if (getSettings().json) {
+    process.stderr.write(JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      scope,
+      ...(context ? { requestId: context.requestId, tool: context.tool } : {}),
+      message: safeMessage,
+      ...(safeData !== undefined ? { data: safeData } : {}),
+    }) + '\n');
+    return;
+  }
+
+  const correlation = context ? ` (${context.tool ? `${context.tool} ` : ''}${context.requestId})` : '';
+  const details = safeData === undefined ? '' : ` ${typeof safeData === 'string' ? safeData : JSON.stringify(safeData)}`;
+  process.stderr.write(`${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} [${scope}]${correlation} ${safeMessage}${details}\n`);
+}
+
+export interface Logger {
+  error(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  debug(message: string, data?: unknown): void;
+  // Raw payload dumps; only written when LOG_LEVEL=trace
+  trace(message: string, data?: unknown): void;
+}
+
+// Logger whose lines are tagged with `scope`, e.g. createLogger('Canvas API')
+export function createLogger(scope: string): Logger {
+  return {
+    error: (message, data) => write('error', scope, message, data),
+    warn: (message, data) => write('warn', scope, message, data),
+    info: (message, data) => write('info', scope, message, data),
+    debug: (message, data) => write('debug', scope, message, data),
+    trace: (message, data) => write('trace', scope, message, data),
+  };
+}
@@ -0,0 +1,165 @@
+// Loopback OAuth sign-in (RFC 8252): listen on the redirect URI, send the user to Google with a
+// PKCE challenge and a random state, and exchange the code Google redirects back with
+
+import { spawn } from 'node:child_process';
+import { createHash, randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+import { GoogleCalendarClient } from './google-calendar.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Google OAuth');
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export interface LoopbackAuthOptions {
+  timeoutMs?: number;
+  // Try to open the authorization URL in the default browser (default: true)
+  openBrowser?: boolean;
+  // Called with the authorization URL once the listener is ready, e.g. to show it to the user
+  onAuthUrl?: (authUrl: string) => void | Promise<void>;
+  // Aborts the sign-in (e.g. when the MCP request is cancelled)
+  signal?: AbortSignal;
+}
+
+export interface LoopbackAuthResult {
+  stored: boolean;
+  receivedRefreshToken: boolean;
+}
+
+// PKCE verifier (43-128 unreserved characters) and its S256 challenge
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+// Best-effort: open a URL with the platform's default handler
+function openInBrowser(url: string): void {
+  const [command, args] = process.platform === 'darwin'
+    ? ['open', [url]]
+    : process.platform === 'win32'
+      ? ['cmd', ['/c', 'start', '""', url.replace(/&/g, '^&')]]
+      : ['xdg-open', [url]];
+
+  try {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true });
+    child.on('error', error => log.warn(`Could not open a browser (${error.message}); open the URL manually`));
+    child.unref();
+  } catch (error) {
+    log.warn('Could not open a browser; open the URL manually', error);
+  }
+}
+
+function page(title: string, message: string): string {
+  const escape = (text: string) => text.replace(/[&<>"]/g, char => `&#${char.charCodeAt(0)};`);
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escape(title)}</title></head>` +
+    `<body style="font-family: sans-serif; margin: 3em"><h1>${escape(title)}</h1><p>${escape(message)}</p></body></html>`;
+}
+
+// Run the whole sign-in: resolves once tokens were exchanged (and saved), rejects on a denied or
+// invalid callback, timeout or abort. The listener is always closed before this returns.
+export async function runLoopbackAuthorization(
+  client: GoogleCalendarClient,
+  options: LoopbackAuthOptions = {}
+): Promise<LoopbackAuthResult> {
+  const redirectUri = new URL(client.getRedirectUri());
+  if (redirectUri.protocol !== 'http:' || !LOOPBACK_HOSTS.has(redirectUri.hostname)) {
+    throw new Error(`GOOGLE_REDIRECT_URI must be a loopback http URL (e.g. http://localhost:3000/oauth2callback) for automatic sign-in, got ${redirectUri.toString()}`);
+  }
+
+  const port = Number(redirectUri.port || 80);
+  const host = redirectUri.hostname.replace(/^\[|\]$/g, '');
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const state = randomBytes(16).toString('base64url');
+  const pkce = createPkcePair();
+
+  return await new Promise<LoopbackAuthResult>((resolve, reject) => {
+    // `codeReceived` stops a second callback from being exchanged; `done` guards finish()
+    let codeReceived = false;
+    let done = false;
+
+    const server = createServer(async (request, response) => {
+      const url = new URL(request.url || '/', redirectUri);
+      if (url.pathname !== redirectUri.pathname) {
+        response.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+        return;
+      }
+
+      const respond = (status: number, title: string, message: string) => {
+        response.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' }).end(page(title, message));
+      };
+
+      // Ignore stray requests (favicon prefetches, replayed URLs) that don't carry our state
+      if (url.searchParams.get('state') !== state) {
+        respond(400, 'Invalid request', 'This sign-in link is not valid. Start again from your MCP client.');
+        return;
+      }
+      if (codeReceived) {
+        respond(409, 'Already handled', 'This sign-in has already been completed. You can close this tab.');
+        return;
+      }
+
+      const error = url.searchParams.get('error');
+      const code = url.searchParams.get('code');
+      if (error || !code) {
+        respond(400, 'Authorization failed', `Google returned: ${error || 'no authorization code'}. You can close this tab.`);
+        finish(new Error(`Google authorization failed: ${error || 'no authorization code in the callback'}`));
+        return;
+      }
+
+      codeReceived = true;
+      try {
+        const tokens = await client.exchangeCodeForTokens(code, pkce.verifier);
+        respond(200, 'Signed in', 'Google Calendar access is set up. You can close this tab and return to your MCP client.');
+        finish(null, { stored: tokens.stored, receivedRefreshToken: !!tokens.refresh_token });
+      } catch (exchangeError) {
+        respond(500, 'Authorization failed', 'The authorization code could not be exchanged for tokens. Check the MCP logs.');
+        finish(exchangeError instanceof Error ? exchangeError : new Error(String(exchangeError)));
+      }
+    });
+
+    const timer = setTimeout(() => {
+      finish(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s waiting for Google authorization`));
+    }, timeoutMs);
+
+    const onAbort = () => finish(new Error('Google authorization was cancelled'));
+    options.signal?.addEventListener('abort', onAbort);
+
+    function finish(error: Error | null, result?: LoopbackAuthResult) {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      server.close();
+      server.closeIdleConnections();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result!);
+      }
+    }
+
+    server.on('error', error => {
+      const message = (error as NodeJS.ErrnoException).code === 'EADDRINUSE'
+        ? `Port ${port} is already in use; free it or change GOOGLE_REDIRECT_URI (and the redirect URI in Google Cloud Console)`
+        : `Could not listen on ${redirectUri.origin}: ${error.message}`;
+      finish(new Error(message));
+    });
+
+    server.listen(port, host, async () => {
+      const authUrl = client.getAuthUrl({ state, codeChallenge: pkce.challenge });
+      log.info(`Waiting for Google authorization on ${redirectUri.origin}${redirectUri.pathname}`);
+      log.info(`Authorization URL: ${authUrl}`);
+
+      try {
+        await options.onAuthUrl?.(authUrl);
+      } catch (error) {
+        log.warn('Could not report the authorization URL', error);
+      }
+      if (options.openBrowser !== false) {
+        openInBrowser(authUrl);
+      }
+    });
+  });
+}
@@ -0,0 +1,261 @@
+// Canvas data as MCP resources (canvas://courses, canvas://courses/{courseId}/assignments, canvas://upcoming).
+// Subscribed resources are re-read in the background; when their content changes the server is told
+// which URI changed, so it can send notifications/resources/updated to the client.
+
+import { createHash } from 'node:crypto';
+import { CanvasClient } from './canvas.js';
+import { createLogger } from './logger.js';
+import { describeSubmissionStatus } from './sync.js';
+
+const log = createLogger('resources');
+
+const COURSES_URI = 'canvas://courses';
+const UPCOMING_URI = 'canvas://upcoming';
+const COURSE_ASSIGNMENTS_TEMPLATE = 'canvas://courses/{courseId}/assignments';
+const MIME_TYPE = 'application/json';
+
+export interface ResourceDescription {
+  uri: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateDescription {
+  uriTemplate: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface CanvasResourcesOptions {
+  // Called with the URI of each subscribed resource whose content changed
+  onUpdated: (uri: string) => Promise<void>;
+  // Called when the set of listed resources changed (a course was added or dropped)
+  onListChanged: () => Promise<void>;
+}
+
+type ParsedUri = { kind: 'courses' } | { kind: 'upcoming' } | { kind: 'assignments'; courseId: number };
+
+export const RESOURCE_TEMPLATES: ResourceTemplateDescription[] = [
+  {
+    uriTemplate: COURSE_ASSIGNMENTS_TEMPLATE,
+    name: 'course-assignments',
+    title: 'Course assignments',
+    description: 'Every assignment of one Canvas course (by Canvas course ID, see canvas://courses), with due and availability dates in UTC',
+    mimeType: MIME_TYPE,
+  },
+];
+
+function getCourseAssignmentsUri(courseId: number | string): string {
+  return COURSE_ASSIGNMENTS_TEMPLATE.replace('{courseId}', String(courseId));
+}
+
+function parseResourceUri(uri: string): ParsedUri {
+  if (uri === COURSES_URI) return { kind: 'courses' };
+  if (uri === UPCOMING_URI) return { kind: 'upcoming' };
+
+  const match = uri.match(/^canvas:\/\/courses\/(\d+)\/assignments$/);
+  if (match) return { kind: 'assignments', courseId: Number(match[1]) };
+
+  throw new Error(`Unknown resource "${uri}". Use ${COURSES_URI}, ${UPCOMING_URI} or ${COURSE_ASSIGNMENTS_TEMPLATE}.`);
+}
+
+function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export class CanvasResources {
+  private canvasClient: CanvasClient;
+  private options: CanvasResourcesOptions;
+  private subscriptions: Set<string>;
+  // Hash of the content last read or sent per URI; a refresh only notifies when it differs
+  private contentHashes: Map<string, string>;
+  // Course IDs behind the last listing, to notice when the resource list changes
+  private listedCourseIds: string | null;
+  private timer: NodeJS.Timeout | null;
+  private refreshing: boolean;
+
+  constructor(canvasClient: CanvasClient, options: CanvasResourcesOptions) {
+    this.canvasClient = canvasClient;
+    this.options = options;
+    this.subscriptions = new Set();
+    this.contentHashes = new Map();
+    this.listedCourseIds = null;
+    this.timer = null;
+    this.refreshing = false;
+  }
+
+  // The fixed resources plus one assignments resource per active course
+  async list(): Promise<ResourceDescription[]> {
+    const resources: ResourceDescription[] = [
+      {
+        uri: COURSES_URI,
+        name: 'courses',
+        title: 'Canvas courses',
+        description: 'Your active Canvas courses with their IDs and assignment resource URIs',
+        mimeType: MIME_TYPE,
+      },
+      {
+        uri: UPCOMING_URI,
+        name: 'upcoming',
+        title: 'Upcoming Canvas items',
+        description: 'Upcoming assignments, quizzes, discussions and planner to-dos of every active course, with submission status',
+        mimeType: MIME_TYPE,
+      },
+    ];
+
+    // Course resources are a convenience; the template still works when the course list can't be loaded
+    try {
+      const courses = await this.canvasClient.getCourses();
+      this.listedCourseIds = courses.map((course: any) => course.id).sort().join(',');
+      for (const course of courses) {
+        resources.push({
+          uri: getCourseAssignmentsUri(course.id),
+          name: `course-${course.id}-assignments`,
+          title: `${course.name} assignments`,
+          description: `Every assignment of ${course.name} (${course.course_code})`,
+          mimeType: MIME_TYPE,
+        });
+      }
+    } catch (error) {
+      log.warn('Could not list course resources', error instanceof Error ? error.message : error);
+    }
+    return resources;
+  }
+
+  async read(uri: string): Promise<ResourceContents> {
+    const text = await this.load(parseResourceUri(uri));
+    // What the client just read is the baseline for change notifications
+    this.contentHashes.set(uri, hashContent(text));
+    return { uri, mimeType: MIME_TYPE, text };
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    parseResourceUri(uri);
+    this.subscriptions.add(uri);
+    log.info(`Subscribed to ${uri} (${this.subscriptions.size} subscription(s))`);
+
+    // Without a baseline the first refresh couldn't tell whether anything changed
+    if (!this.contentHashes.has(uri)) {
+      this.load(parseResourceUri(uri)).then(
+        text => this.contentHashes.set(uri, hashContent(text)),
+        error => log.warn(`Could not read ${uri} for its baseline`, error instanceof Error ? error.message : error)
+      );
+    }
+  }
+
+  async unsubscribe(uri: string): Promise<void> {
+    this.subscriptions.delete(uri);
+    this.contentHashes.delete(uri);
+    log.info(`Unsubscribed from ${uri} (${this.subscriptions.size} subscription(s))`);
+  }
+
+  // Start re-reading subscribed resources every `intervalMs`; Canvas is only called while something is subscribed
+  start(intervalMs: number): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => log.error('Resource refresh failed', error));
+    }, intervalMs);
+    // The refresh alone never keeps the process alive
+    this.timer.unref();
+    log.info(`Refreshing subscribed resources every ${Math.round(intervalMs / 1000)} second(s)`);
+  }
+
+  // Re-read every subscribed resource and report the ones whose content changed.
+  // A refresh still running when the next one is due is not overlapped.
+  async refresh(): Promise<void> {
+    if (this.refreshing || this.subscriptions.size === 0) return;
+    this.refreshing = true;
+
+    try {
+      for (const uri of this.subscriptions) {
+        let hash: string;
+        try {
+          hash = hashContent(await this.load(parseResourceUri(uri)));
+        } catch (error) {
+          // Keep the old baseline, so the change is still reported once Canvas answers again
+          log.warn(`Could not refresh ${uri}`, error instanceof Error ? error.message : error);
+          continue;
+        }
+
+        const previous = this.contentHashes.get(uri);
+        this.contentHashes.set(uri, hash);
+        if (previous !== undefined && previous !== hash && this.subscriptions.has(uri)) {
+          log.info(`${uri} changed`);
+          await this.options.onUpdated(uri);
+        }
+      }
+
+      // The course list decides which resources are listed; a listing the client saw may be outdated
+      if (this.listedCourseIds !== null) {
+        const courses = await this.canvasClient.getCourses();
+        const courseIds = courses.map((course: any) => course.id).sort().join(',');
+        if (courseIds !== this.listedCourseIds) {
+          this.listedCourseIds = courseIds;
+          log.info('Course list changed');
+          await this.options.onListChanged();
+        }
+      }
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  // Resource content as pretty-printed JSON. Times stay in UTC as Canvas returns them.
+  private async load(parsed: ParsedUri): Promise<string> {
+    switch (parsed.kind) {
+      case 'courses': {
+        const courses = await this.canvasClient.getCourses();
+        return JSON.stringify(courses.map((course: any) => ({
+          id: course.id,
+          name: course.name,
+          course_code: course.course_code,
+          assignments: getCourseAssignmentsUri(course.id),
+        })), null, 2);
+      }
+
+      case 'assignments': {
+        const assignments = await this.canvasClient.getAssignmentsByCourse(parsed.courseId);
+        return JSON.stringify(assignments.map((assignment: any) => ({
+          id: assignment.id,
+          name: assignment.name,
+          due_at: assignment.due_at,
+          unlock_at: assignment.unlock_at,
+          lock_at: assignment.lock_at,
+          points_possible: assignment.points_possible,
+          submission_types: assignment.submission_types,
+          published: assignment.published,
+          url: assignment.html_url,
+        })), null, 2);
+      }
+
+      case 'upcoming': {
+        const { items, warnings } = await this.canvasClient.getUpcomingAssignments();
+        return JSON.stringify({
+          items: items.map((item: any) => ({
+            type: item.type,
+            name: item.title || item.name || item.assignment?.name,
+            course: item.context_name,
+            course_id: item.course_id,
+            due_at: item.due_at || item.assignment?.due_at || null,
+            unlock_at: item.unlock_at || null,
+            lock_at: item.lock_at || null,
+            points: item.points_possible ?? item.assignment?.points_possible ?? null,
+            status: describeSubmissionStatus(item),
+            url: item.html_url || item.assignment?.html_url,
+          })),
+          warnings,
+        }, null, 2);
+      }
+    }
+  }
+}
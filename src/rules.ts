@@ -0,0 +1,322 @@
+// Declarative sync rules: a JSON or YAML file that filters and shapes the events sync_to_calendar writes
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { MAX_REMINDER_MINUTES } from './sync.js';
+
+// Placeholders available in title and description templates, e.g. "{emoji} {course_code}: {name}"
+export const TEMPLATE_FIELDS = [
+  'name',
+  'emoji',
+  'label',
+  'type',
+  'course',
+  'course_code',
+  'course_id',
+  'points',
+  'due',
+  'status',
+  'url',
+];
+
+// Google Calendar event color IDs
+const COLOR_IDS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11'];
+
+export interface SyncRuleMatch {
+  // Canvas course IDs or course codes
+  courses?: string[];
+  // Item types (assignment, quiz, discussion, todo, planner_note, event)
+  types?: string[];
+  // Points thresholds (inclusive); items without points never match these
+  minPoints?: number;
+  maxPoints?: number;
+  // Case-insensitive regular expression tested against the item name
+  namePattern?: RegExp;
+}
+
+export interface SyncRule {
+  name: string;
+  match: SyncRuleMatch;
+  // false leaves matching items out of the sync; undefined keeps the earlier decision
+  include?: boolean;
+  title?: string;
+  description?: string;
+  durationMinutes?: number;
+  // Minutes before the event; an empty list means no reminders
+  reminders?: number[];
+  colorId?: string;
+  calendarId?: string;
+}
+
+export interface SyncRuleSet {
+  // Absolute path of the rules file
+  path: string;
+  loadedAt: Date;
+  // Default sync window when the daysAhead argument is omitted
+  daysAhead?: number;
+  rules: SyncRule[];
+}
+
+// Combined effect of every rule that matched an item (later rules override earlier ones)
+export interface RuleOutcome {
+  ruleNames: string[];
+  included: boolean;
+  // Name of the rule that excluded the item
+  excludedBy?: string;
+  title?: string;
+  description?: string;
+  durationMinutes?: number;
+  reminders?: number[];
+  colorId?: string;
+  calendarId?: string;
+}
+
+function fail(source: string, message: string): never {
+  throw new Error(`Invalid sync rules in ${source}: ${message}`);
+}
+
+function readPositiveNumber(value: unknown, label: string, source: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    fail(source, `${label} must be a positive number`);
+  }
+  return value;
+}
+
+function readTemplate(value: unknown, label: string, source: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.trim() === '') {
+    fail(source, `${label} must be a non-empty string`);
+  }
+  for (const [, field] of value.matchAll(/\{(\w+)\}/g)) {
+    if (!TEMPLATE_FIELDS.includes(field)) {
+      fail(source, `${label} uses unknown placeholder {${field}}. Available: ${TEMPLATE_FIELDS.map(f => `{${f}}`).join(', ')}`);
+    }
+  }
+  return value;
+}
+
+function readMatch(value: unknown, label: string, source: string): SyncRuleMatch {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(source, `${label}.match must be an object`);
+  }
+  const raw = value as Record<string, unknown>;
+  for (const key of Object.keys(raw)) {
+    if (!['courses', 'types', 'minPoints', 'maxPoints', 'namePattern'].includes(key)) {
+      fail(source, `${label}.match has unknown key "${key}"`);
+    }
+  }
+
+  const readList = (key: string) => {
+    const list = raw[key];
+    if (list === undefined) return undefined;
+    if (!Array.isArray(list) || list.length === 0 || list.some(entry => typeof entry !== 'string' && typeof entry !== 'number')) {
+      fail(source, `${label}.match.${key} must be a non-empty list of strings or numbers`);
+    }
+    return list.map(String);
+  };
+  const readPoints = (key: string) => {
+    const points = raw[key];
+    if (points === undefined) return undefined;
+    if (typeof points !== 'number' || !Number.isFinite(points)) {
+      fail(source, `${label}.match.${key} must be a number`);
+    }
+    return points;
+  };
+
+  let namePattern: RegExp | undefined;
+  if (raw.namePattern !== undefined) {
+    if (typeof raw.namePattern !== 'string') {
+      fail(source, `${label}.match.namePattern must be a string`);
+    }
+    try {
+      namePattern = new RegExp(raw.namePattern, 'i');
+    } catch (error) {
+      fail(source, `${label}.match.namePattern is not a valid regular expression (${error instanceof Error ? error.message : error})`);
+    }
+  }
+
+  const match: SyncRuleMatch = {
+    courses: readList('courses'),
+    types: readList('types'),
+    minPoints: readPoints('minPoints'),
+    maxPoints: readPoints('maxPoints'),
+    namePattern,
+  };
+  if (match.minPoints !== undefined && match.maxPoints !== undefined && match.minPoints > match.maxPoints) {
+    fail(source, `${label}.match.minPoints is greater than maxPoints`);
+  }
+  return match;
+}
+
+function readRule(value: unknown, index: number, source: string): SyncRule {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(source, `rules[${index}] must be an object`);
+  }
+  const raw = value as Record<string, unknown>;
+  const name = raw.name === undefined ? `rule ${index + 1}` : raw.name;
+  if (typeof name !== 'string' || name.trim() === '') {
+    fail(source, `rules[${index}].name must be a non-empty string`);
+  }
+  const label = `rule "${name}"`;
+
+  for (const key of Object.keys(raw)) {
+    if (!['name', 'match', 'include', 'title', 'description', 'durationMinutes', 'reminders', 'colorId', 'calendarId'].includes(key)) {
+      fail(source, `${label} has unknown key "${key}"`);
+    }
+  }
+
+  if (raw.include !== undefined && typeof raw.include !== 'boolean') {
+    fail(source, `${label}.include must be true or false`);
+  }
+
+  let reminders: number[] | undefined;
+  if (raw.reminders !== undefined) {
+    if (!Array.isArray(raw.reminders) || raw.reminders.some(minutes =>
+      typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 0 || minutes > MAX_REMINDER_MINUTES)) {
+      fail(source, `${label}.reminders must be a list of whole minutes between 0 and ${MAX_REMINDER_MINUTES}`);
+    }
+    reminders = raw.reminders as number[];
+  }
+
+  const colorId = raw.colorId === undefined ? undefined : String(raw.colorId);
+  if (colorId !== undefined && !COLOR_IDS.includes(colorId)) {
+    fail(source, `${label}.colorId must be a Google Calendar color ID from 1 to 11`);
+  }
+
+  if (raw.calendarId !== undefined && (typeof raw.calendarId !== 'string' || raw.calendarId.trim() === '')) {
+    fail(source, `${label}.calendarId must be a non-empty string`);
+  }
+
+  return {
+    name,
+    match: readMatch(raw.match, label, source),
+    include: raw.include as boolean | undefined,
+    title: readTemplate(raw.title, `${label}.title`, source),
+    description: readTemplate(raw.description, `${label}.description`, source),
+    durationMinutes: readPositiveNumber(raw.durationMinutes, `${label}.durationMinutes`, source),
+    reminders,
+    colorId,
+    calendarId: raw.calendarId as string | undefined,
+  };
+}
+
+// Validate parsed rules file content. Throws with the offending rule and key on any mistake.
+export function parseSyncRules(content: unknown, source: string): Omit<SyncRuleSet, 'path' | 'loadedAt'> {
+  if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+    fail(source, 'the file must contain an object with a "rules" list');
+  }
+  const raw = content as Record<string, unknown>;
+  for (const key of Object.keys(raw)) {
+    if (!['daysAhead', 'rules'].includes(key)) {
+      fail(source, `unknown top-level key "${key}"`);
+    }
+  }
+  if (!Array.isArray(raw.rules)) {
+    fail(source, '"rules" must be a list');
+  }
+
+  const rules = raw.rules.map((rule, index) => readRule(rule, index, source));
+  const names = new Set<string>();
+  for (const rule of rules) {
+    if (names.has(rule.name)) {
+      fail(source, `rule name "${rule.name}" is used more than once`);
+    }
+    names.add(rule.name);
+  }
+
+  return { daysAhead: readPositiveNumber(raw.daysAhead, 'daysAhead', source), rules };
+}
+
+// Read and validate a rules file; .yaml / .yml files are parsed as YAML, everything else as JSON
+export async function loadSyncRules(filePath: string): Promise<SyncRuleSet> {
+  const resolvedPath = path.resolve(filePath);
+  const text = await readFile(resolvedPath, 'utf8');
+
+  let content: unknown;
+  try {
+    content = /\.ya?ml$/i.test(resolvedPath) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    fail(resolvedPath, error instanceof Error ? error.message : String(error));
+  }
+
+  return { path: resolvedPath, loadedAt: new Date(), ...parseSyncRules(content, resolvedPath) };
+}
+
+function matchesRule(item: any, match: SyncRuleMatch): boolean {
+  if (match.courses) {
+    const keys = [item.course_id, item.course_code].filter(key => key !== undefined && key !== null).map(String);
+    if (!keys.some(key => match.courses!.some(course => course.toLowerCase() === key.toLowerCase()))) return false;
+  }
+  if (match.types && !match.types.includes(item.type)) return false;
+
+  if (match.minPoints !== undefined || match.maxPoints !== undefined) {
+    const rawPoints = item.points_possible ?? item.assignment?.points_possible;
+    const points = Number(rawPoints);
+    if (rawPoints === null || rawPoints === undefined || !Number.isFinite(points)) return false;
+    if (match.minPoints !== undefined && points < match.minPoints) return false;
+    if (match.maxPoints !== undefined && points > match.maxPoints) return false;
+  }
+
+  if (match.namePattern) {
+    const name = item.title || item.name || item.assignment?.name || '';
+    if (!match.namePattern.test(name)) return false;
+  }
+  return true;
+}
+
+// Apply every matching rule in file order; later rules override what earlier ones set
+export function resolveRules(item: any, ruleSet: SyncRuleSet | null): RuleOutcome {
+  const outcome: RuleOutcome = { ruleNames: [], included: true };
+  if (!ruleSet) return outcome;
+
+  for (const rule of ruleSet.rules) {
+    if (!matchesRule(item, rule.match)) continue;
+
+    outcome.ruleNames.push(rule.name);
+    if (rule.include !== undefined) {
+      outcome.included = rule.include;
+      outcome.excludedBy = rule.include ? undefined : rule.name;
+    }
+    outcome.title = rule.title ?? outcome.title;
+    outcome.description = rule.description ?? outcome.description;
+    outcome.durationMinutes = rule.durationMinutes ?? outcome.durationMinutes;
+    outcome.reminders = rule.reminders ?? outcome.reminders;
+    outcome.colorId = rule.colorId ?? outcome.colorId;
+    outcome.calendarId = rule.calendarId ?? outcome.calendarId;
+  }
+  return outcome;
+}
+
+// Fill {placeholders} from `fields`; missing values become "N/A"
+export function renderTemplate(template: string, fields: { [field: string]: unknown }): string {
+  return template.replace(/\{(\w+)\}/g, (_, field: string) => {
+    const value = fields[field];
+    return value === undefined || value === null || value === '' ? 'N/A' : String(value);
+  });
+}
+
+// One line per rule for get_sync_rules
+export function describeRule(rule: SyncRule): string {
+  const conditions = [
+    rule.match.courses ? `courses ${rule.match.courses.join(', ')}` : null,
+    rule.match.types ? `types ${rule.match.types.join(', ')}` : null,
+    rule.match.minPoints !== undefined ? `points >= ${rule.match.minPoints}` : null,
+    rule.match.maxPoints !== undefined ? `points <= ${rule.match.maxPoints}` : null,
+    rule.match.namePattern ? `name ~ /${rule.match.namePattern.source}/i` : null,
+  ].filter(Boolean);
+
+  const effects = [
+    rule.include === false ? 'exclude' : rule.include === true ? 'include' : null,
+    rule.title !== undefined ? `title "${rule.title}"` : null,
+    rule.description !== undefined ? 'custom description' : null,
+    rule.durationMinutes !== undefined ? `${rule.durationMinutes} min` : null,
+    rule.reminders !== undefined ? (rule.reminders.length > 0 ? `reminders ${rule.reminders.join(', ')} min before` : 'no reminders') : null,
+    rule.colorId !== undefined ? `color ${rule.colorId}` : null,
+    rule.calendarId !== undefined ? `calendar ${rule.calendarId}` : null,
+  ].filter(Boolean);
+
+  return `• ${rule.name}: ${conditions.length > 0 ? `when ${conditions.join(' and ')}` : 'every item'} -> ${effects.length > 0 ? effects.join(', ') : 'no changes'}`;
+}
@@ -0,0 +1,295 @@
+// Free-time search and study-block planning on top of free/busy data
+
+import { BusyInterval } from './types.js';
+import { convertToTimezone, zonedTimeToUtc } from './timezone.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Effort for items without points (or without a per-type override), in minutes
+const DEFAULT_TYPE_EFFORT_MINUTES: { [type: string]: number } = {
+  assignment: 120,
+  quiz: 60,
+  discussion: 45,
+  todo: 30,
+  planner_note: 30,
+};
+export const DEFAULT_MINUTES_PER_POINT = 3;
+// Upper bound for a points-based estimate, so a 1000-point project doesn't eat the whole week
+const MAX_ESTIMATED_EFFORT_MINUTES = 600;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface WorkingHours {
+  // Minutes after local midnight
+  startMinutes: number;
+  endMinutes: number;
+  // Local weekdays to use, 0 = Sunday
+  days: number[];
+}
+
+// Half-open interval in epoch milliseconds
+export interface TimeSlot {
+  start: number;
+  end: number;
+}
+
+export interface EffortOptions {
+  minutesPerPoint?: number;
+  // Minutes per item, keyed by Canvas course ID or course code
+  courseOverrides?: { [course: string]: number };
+  // Minutes per item, keyed by item type (assignment, quiz, discussion, todo, planner_note)
+  typeOverrides?: { [type: string]: number };
+}
+
+export interface StudyPlanOptions {
+  dailyCapMinutes: number;
+  minBlockMinutes: number;
+  maxBlockMinutes: number;
+  timeZone: string;
+  effort: EffortOptions;
+}
+
+export interface StudyBlock {
+  item: any;
+  start: number;
+  end: number;
+  part: number;
+  parts: number;
+}
+
+export interface StudyPlan {
+  blocks: StudyBlock[];
+  // Items (with their estimate) that couldn't be fully placed before their deadline
+  shortfalls: Array<{ item: any; effortMinutes: number; unscheduledMinutes: number }>;
+  estimates: Array<{ item: any; effortMinutes: number }>;
+}
+
+// "09:00" / "9:30" -> minutes after midnight; "24:00" is allowed as an end time
+export function parseClockTime(value: string, label: string): number {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  if (!match || Number(match[2]) > 59 || minutes > 24 * 60) {
+    throw new Error(`Invalid ${label} "${value}". Use 24-hour HH:MM, e.g. "09:00".`);
+  }
+  return minutes;
+}
+
+// ["mon", "tue", ...] -> [1, 2, ...]; undefined means every day
+export function parseWeekdays(values: string[] | undefined): number[] {
+  if (!values || values.length === 0) return [0, 1, 2, 3, 4, 5, 6];
+
+  return values.map(value => {
+    const index = WEEKDAYS.indexOf(value.toLowerCase().substring(0, 3));
+    if (index === -1) {
+      throw new Error(`Invalid weekday "${value}". Use mon, tue, wed, thu, fri, sat or sun.`);
+    }
+    return index;
+  });
+}
+
+// Local calendar date ("YYYY-MM-DD") of an instant
+function localDate(time: number, timeZone: string): string {
+  return convertToTimezone(new Date(time).toISOString(), timeZone)!.datetime.substring(0, 10);
+}
+
+// Minutes after midnight -> "HH:MM"
+export function formatClock(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Working-hour windows of every local day between rangeStart and rangeEnd, clipped to the range
+export function getWorkingWindows(rangeStart: number, rangeEnd: number, hours: WorkingHours, timeZone: string): TimeSlot[] {
+  const windows: TimeSlot[] = [];
+  const firstDay = Date.parse(`${localDate(rangeStart, timeZone)}T00:00:00Z`);
+  const lastDay = Date.parse(`${localDate(rangeEnd, timeZone)}T00:00:00Z`);
+
+  for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+    if (!hours.days.includes(new Date(day).getUTCDay())) continue;
+
+    const date = new Date(day).toISOString().substring(0, 10);
+    const start = zonedTimeToUtc(`${date}T${formatClock(hours.startMinutes)}:00`, timeZone).getTime();
+    // "24:00" is midnight at the start of the next local day
+    const end = hours.endMinutes === 24 * 60
+      ? zonedTimeToUtc(`${new Date(day + DAY_MS).toISOString().substring(0, 10)}T00:00:00`, timeZone).getTime()
+      : zonedTimeToUtc(`${date}T${formatClock(hours.endMinutes)}:00`, timeZone).getTime();
+
+    const clippedStart = Math.max(start, rangeStart);
+    const clippedEnd = Math.min(end, rangeEnd);
+    if (clippedEnd > clippedStart) {
+      windows.push({ start: clippedStart, end: clippedEnd });
+    }
+  }
+
+  return windows;
+}
+
+// Sorted, merged busy intervals as epoch-millisecond slots
+export function normalizeBusy(busy: BusyInterval[]): TimeSlot[] {
+  const slots = busy
+    .map(interval => ({ start: Date.parse(interval.start), end: Date.parse(interval.end) }))
+    .filter(slot => !isNaN(slot.start) && !isNaN(slot.end) && slot.end > slot.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeSlot[] = [];
+  for (const slot of slots) {
+    const last = merged[merged.length - 1];
+    if (last && slot.start <= last.end) {
+      last.end = Math.max(last.end, slot.end);
+    } else {
+      merged.push({ ...slot });
+    }
+  }
+  return merged;
+}
+
+// Parts of `slots` not covered by any of `remove` (both sorted)
+export function subtractSlots(slots: TimeSlot[], remove: TimeSlot[]): TimeSlot[] {
+  const result: TimeSlot[] = [];
+
+  for (const slot of slots) {
+    let cursor = slot.start;
+    for (const busy of remove) {
+      if (busy.end <= cursor) continue;
+      if (busy.start >= slot.end) break;
+      if (busy.start > cursor) {
+        result.push({ start: cursor, end: busy.start });
+      }
+      cursor = Math.max(cursor, busy.end);
+    }
+    if (cursor < slot.end) {
+      result.push({ start: cursor, end: slot.end });
+    }
+  }
+
+  return result;
+}
+
+// Free slots of at least `minMinutes` inside working hours
+export function findFreeSlots(
+  rangeStart: number,
+  rangeEnd: number,
+  busy: BusyInterval[],
+  hours: WorkingHours,
+  timeZone: string,
+  minMinutes: number
+): TimeSlot[] {
+  const windows = getWorkingWindows(rangeStart, rangeEnd, hours, timeZone);
+  return subtractSlots(windows, normalizeBusy(busy))
+    .filter(slot => slot.end - slot.start >= minMinutes * MINUTE_MS);
+}
+
+// Next multiple of `minutes` at or after `time`
+export function roundUpToMinutes(time: number, minutes: number): number {
+  const step = minutes * MINUTE_MS;
+  return Math.ceil(time / step) * step;
+}
+
+// Minutes of work an item needs: course override, then type override, then points, then a per-type default
+export function estimateEffortMinutes(item: any, options: EffortOptions = {}): number {
+  const courseKeys = [item.course_id, item.course_code].filter(key => key !== undefined && key !== null).map(String);
+  for (const key of courseKeys) {
+    if (options.courseOverrides?.[key] !== undefined) return options.courseOverrides[key];
+  }
+
+  if (options.typeOverrides?.[item.type] !== undefined) {
+    return options.typeOverrides[item.type];
+  }
+
+  const points = Number(item.points_possible ?? item.assignment?.points_possible);
+  if (Number.isFinite(points) && points > 0) {
+    const minutes = Math.round(points * (options.minutesPerPoint ?? DEFAULT_MINUTES_PER_POINT));
+    return Math.min(minutes, MAX_ESTIMATED_EFFORT_MINUTES);
+  }
+
+  return DEFAULT_TYPE_EFFORT_MINUTES[item.type] ?? DEFAULT_TYPE_EFFORT_MINUTES.assignment;
+}
+
+// Place work blocks for each item into free slots before its deadline, earliest deadline first.
+// Blocks are as early as possible, between minBlockMinutes and maxBlockMinutes long, and a local day
+// never gets more than dailyCapMinutes of study blocks.
+export function planStudyBlocks(items: any[], freeSlots: TimeSlot[], options: StudyPlanOptions): StudyPlan {
+  const slots = freeSlots.map(slot => ({ ...slot }));
+  const minutesByDay = new Map<string, number>();
+  const blocks: StudyBlock[] = [];
+  const shortfalls: StudyPlan['shortfalls'] = [];
+  const estimates: StudyPlan['estimates'] = [];
+
+  const dueTime = (item: any) => Date.parse(item.due_at || item.assignment?.due_at);
+  const ordered = [...items].sort((a, b) => dueTime(a) - dueTime(b));
+
+  for (const item of ordered) {
+    const due = dueTime(item);
+    // Never plan blocks shorter than the minimum, even for small items
+    const effortMinutes = Math.max(estimateEffortMinutes(item, options.effort), options.minBlockMinutes);
+    estimates.push({ item, effortMinutes });
+
+    let remaining = effortMinutes;
+    const itemBlocks: Array<{ start: number; end: number }> = [];
+
+    // Stay on a slot while it still has room; move on once a block no longer fits
+    for (let index = 0; index < slots.length && remaining > 0; ) {
+      const slot = slots[index];
+      if (slot.start >= due) break;
+
+      const day = localDate(slot.start, options.timeZone);
+      const dayLeft = options.dailyCapMinutes - (minutesByDay.get(day) || 0);
+      const available = Math.floor((Math.min(slot.end, due) - slot.start) / MINUTE_MS);
+
+      let chunk = Math.min(remaining, available, options.maxBlockMinutes, dayLeft);
+      if (chunk <= 0 || chunk < Math.min(options.minBlockMinutes, remaining)) {
+        index++;
+        continue;
+      }
+
+      // Don't leave a remainder too short to schedule on its own
+      const leftover = remaining - chunk;
+      if (leftover > 0 && leftover < options.minBlockMinutes && remaining - options.minBlockMinutes >= options.minBlockMinutes) {
+        chunk = remaining - options.minBlockMinutes;
+      }
+
+      const start = slot.start;
+      const end = start + chunk * MINUTE_MS;
+      itemBlocks.push({ start, end });
+      slot.start = end;
+      minutesByDay.set(day, (minutesByDay.get(day) || 0) + chunk);
+      remaining -= chunk;
+    }
+
+    itemBlocks.forEach((block, index) => {
+      blocks.push({ item, start: block.start, end: block.end, part: index + 1, parts: itemBlocks.length });
+    });
+    if (remaining > 0) {
+      shortfalls.push({ item, effortMinutes, unscheduledMinutes: remaining });
+    }
+  }
+
+  blocks.sort((a, b) => a.start - b.start);
+  return { blocks, shortfalls, estimates };
+}
+
+// 90 -> "1h 30m"
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+// Instant of a time argument: ISO date-times with an offset ("Z", "+02:00") are absolute, anything
+// else ("2025-01-15T10:00:00", "2025-01-15") is wall-clock time in `timeZone`. With endOfDay, a bare
+// date means the end of that day (the next local midnight). NaN when unparseable.
+export function parseTimeArgument(value: string, timeZone: string, endOfDay: boolean = false): number {
+  if (/T.*(?:Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+    return Date.parse(value);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const nextDay = new Date(Date.parse(`${value}T00:00:00Z`) + DAY_MS).toISOString().substring(0, 10);
+    return zonedTimeToUtc(`${nextDay}T00:00:00`, timeZone).getTime();
+  }
+  return zonedTimeToUtc(value, timeZone).getTime();
+}
+
+// What create/update_calendar_event do when the new time overlaps other events
+export type ConflictPolicy = 'warn' | 'refuse' | 'ignore';
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['warn', 'refuse', 'ignore'];
@@ -0,0 +1,168 @@
+// Local journal of calendar writes made by sync_to_calendar and schedule_study_blocks, so a run can
+// be listed and undone.
+// Each run records the events it created, patched (with the values it overwrote) and deleted
+// (with a snapshot of the event), in a JSON file next to the token store.
+
+import { chmod, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getConfigDirectory } from './token-store.js';
+import { BatchOperation, CalendarEvent } from './types.js';
+
+const JOURNAL_VERSION = 1;
+const JOURNAL_FILE = 'sync-journal.json';
+// Oldest runs are dropped beyond this
+const MAX_JOURNAL_RUNS = 100;
+
+// Event fields a sync writes; these are what a snapshot keeps and an undo restores
+const EVENT_FIELDS = ['summary', 'description', 'location', 'transparency', 'start', 'end', 'reminders', 'colorId'] as const;
+
+export interface JournalChange {
+  kind: 'created' | 'patched' | 'deleted';
+  calendarId: string;
+  eventId: string;
+  // Item name or event label, for listings
+  item: string;
+  // patched: the overwritten values of the patched fields (null where the field was unset);
+  // deleted: the event as it was before deletion
+  before?: Partial<CalendarEvent>;
+  // Set once undo_sync reverted this change; restoredEventId is the ID of a re-created deleted event
+  undoneAt?: string;
+  restoredEventId?: string;
+}
+
+export interface SyncRun {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  // What produced the run: a sync, an applied dry-run plan or schedule_study_blocks
+  source: 'sync' | 'plan' | 'study_blocks';
+  description: string;
+  changes: JournalChange[];
+  // Set once every change of the run has been undone
+  undoneAt?: string;
+}
+
+export function getDefaultJournalPath(): string {
+  return path.join(getConfigDirectory(), JOURNAL_FILE);
+}
+
+// The current values of the fields a patch is about to overwrite, so the patch can be reverted
+export function capturePriorValues(existing: any, updates: Partial<CalendarEvent>): Partial<CalendarEvent> {
+  const before: any = {};
+  for (const field of EVENT_FIELDS) {
+    if (updates[field] !== undefined) {
+      before[field] = existing?.[field] ?? null;
+    }
+  }
+
+  const privateUpdates = updates.extendedProperties?.private;
+  if (privateUpdates) {
+    const existingPrivate = existing?.extendedProperties?.private || {};
+    before.extendedProperties = {
+      private: Object.fromEntries(Object.keys(privateUpdates).map(key => [key, existingPrivate[key] ?? null])),
+    };
+  }
+  return before;
+}
+
+// The parts of an event needed to recreate it after a delete
+export function snapshotEvent(event: any): Partial<CalendarEvent> {
+  const snapshot: any = {};
+  for (const field of EVENT_FIELDS) {
+    if (event?.[field] !== undefined && event[field] !== null) {
+      snapshot[field] = event[field];
+    }
+  }
+  if (event?.extendedProperties) {
+    snapshot.extendedProperties = event.extendedProperties;
+  }
+  return snapshot;
+}
+
+// The write that reverts one journaled change
+export function buildUndoOperation(change: JournalChange): BatchOperation {
+  switch (change.kind) {
+    case 'created':
+      return { kind: 'delete', eventId: change.eventId, calendarId: change.calendarId };
+    case 'patched':
+      return { kind: 'patch', eventId: change.eventId, updates: change.before || {}, calendarId: change.calendarId };
+    case 'deleted':
+      // The event comes back with a new ID; calendars don't let a deleted ID be reused
+      return { kind: 'insert', event: change.before as CalendarEvent, calendarId: change.calendarId };
+  }
+}
+
+export class SyncJournal {
+  private filePath: string;
+  // Serializes read-modify-write cycles of concurrent tool calls
+  private pending: Promise<unknown>;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath || getDefaultJournalPath();
+    this.pending = Promise.resolve();
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  // All runs, newest first
+  async list(): Promise<SyncRun[]> {
+    return (await this.load()).reverse();
+  }
+
+  async get(runId: string): Promise<SyncRun | null> {
+    return (await this.load()).find(run => run.id === runId) || null;
+  }
+
+  async record(run: SyncRun): Promise<void> {
+    await this.update(runs => {
+      runs.push(run);
+      return runs.slice(-MAX_JOURNAL_RUNS);
+    });
+  }
+
+  // Flag the given changes (by index) as undone; the run counts as undone once all of them are
+  async markUndone(runId: string, undone: Array<{ index: number; restoredEventId?: string }>, undoneAt: string): Promise<void> {
+    await this.update(runs => runs.map(run => {
+      if (run.id !== runId) return run;
+      const changes = run.changes.map((change, index) => {
+        const entry = undone.find(candidate => candidate.index === index);
+        return entry ? { ...change, undoneAt, restoredEventId: entry.restoredEventId } : change;
+      });
+      return { ...run, changes, undoneAt: changes.every(change => change.undoneAt) ? undoneAt : undefined };
+    }));
+  }
+
+  private async load(): Promise<SyncRun[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const file = JSON.parse(raw);
+    if (file.version !== JOURNAL_VERSION) {
+      throw new Error(`Unsupported sync journal version ${file.version} in ${this.filePath}`);
+    }
+    return file.runs as SyncRun[];
+  }
+
+  private update(change: (runs: SyncRun[]) => SyncRun[]): Promise<void> {
+    const next = this.pending.then(async () => {
+      const runs = change(await this.load());
+      await mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+      // Write to a temp file and rename, so a crash never leaves a half-written journal behind
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify({ version: JOURNAL_VERSION, runs }, null, 2), { mode: 0o600 });
+      await chmod(tempPath, 0o600);
+      await rename(tempPath, this.filePath);
+    });
+    // A failed write must not block the ones queued after it
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,281 @@
+// Helpers for tagging Google Calendar events (and per-course calendars) with the Canvas data they came from
+
+import { createHash } from 'node:crypto';
+import { convertToTimezone } from './timezone.js';
+import { CanvasOrigin } from './types.js';
+
+// Private extended property keys stored on every bridged event
+export const BRIDGE_MARKER_KEY = 'canvasBridge';
+const COURSE_ID_KEY = 'canvasCourseId';
+const ASSIGNMENT_ID_KEY = 'canvasAssignmentId';
+const ITEM_TYPE_KEY = 'canvasItemType';
+const FINGERPRINT_KEY = 'canvasFingerprint';
+const STALE_KEY = 'canvasStale';
+
+// Title prefix for events whose Canvas item no longer exists (or left the sync window)
+export const STALE_PREFIX = '[Removed from Canvas]';
+
+// What to do with bridged events whose Canvas item disappeared
+export type StaleEventPolicy = 'keep' | 'mark' | 'delete';
+export const STALE_EVENT_POLICIES: StaleEventPolicy[] = ['keep', 'mark', 'delete'];
+
+// What to do with items the user has already submitted
+export type SubmittedItemPolicy = 'keep' | 'drop_reminders' | 'recolor' | 'delete';
+export const SUBMITTED_ITEM_POLICIES: SubmittedItemPolicy[] = ['keep', 'drop_reminders', 'recolor', 'delete'];
+// Google Calendar event color "Graphite", used to grey out submitted items
+export const SUBMITTED_COLOR_ID = '8';
+
+// Short human-readable submission status for descriptions and listings
+export function describeSubmissionStatus(item: { submitted?: boolean; graded?: boolean; late?: boolean; missing?: boolean; marked_complete?: boolean }): string {
+  const flags = [item.late ? 'late' : null, item.missing ? 'missing' : null].filter(Boolean).join(', ');
+  const base = item.graded ? 'Graded' : item.marked_complete ? 'Marked complete' : item.submitted ? 'Submitted' : 'Not submitted';
+  return flags ? `${base} (${flags})` : base;
+}
+
+// Emoji and label used in event titles and descriptions for each Canvas item type
+export const ITEM_TYPE_INFO: { [key: string]: { emoji: string; label: string } } = {
+  'assignment': { emoji: '📚', label: 'Canvas Assignment' },
+  'quiz': { emoji: '📝', label: 'Canvas Quiz' },
+  'discussion': { emoji: '💬', label: 'Canvas Discussion' },
+  'todo': { emoji: '☑️', label: 'Canvas To-Do' },
+  'planner_note': { emoji: '🗒️', label: 'Canvas Planner Note' },
+  'event': { emoji: '📅', label: 'Calendar Event' }
+};
+
+// Default reminders on bridged events (minutes before the due time)
+export const DEFAULT_REMINDER_MINUTES = [24 * 60, 60];
+// Google Calendar allows reminders up to 4 weeks before an event
+export const MAX_REMINDER_MINUTES = 40320;
+
+// How a Canvas item is laid out on the calendar:
+//   deadline     - a 1-hour block starting at the due time
+//   availability - from unlock_at to lock_at (or due_at), shown as free time
+//   blocking     - the same span, shown as busy
+export type EventLayout = 'deadline' | 'availability' | 'blocking';
+export const EVENT_LAYOUTS: EventLayout[] = ['deadline', 'availability', 'blocking'];
+// Quizzes (which is how Canvas delivers most exams) default to their availability window
+export const DEFAULT_EVENT_LAYOUTS: { [itemType: string]: EventLayout } = { quiz: 'availability' };
+
+// "quiz=availability,assignment=deadline" -> { quiz: 'availability', assignment: 'deadline' }
+export function parseEventLayouts(value: string, source: string): { [itemType: string]: EventLayout } {
+  const layouts: { [itemType: string]: EventLayout } = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [itemType, layout] = entry.split('=').map(part => part.trim());
+    if (!itemType || !EVENT_LAYOUTS.includes(layout as EventLayout)) {
+      throw new Error(`Invalid ${source} entry "${entry}". Use <item type>=<${EVENT_LAYOUTS.join('|')}>, e.g. quiz=availability`);
+    }
+    layouts[itemType] = layout as EventLayout;
+  }
+  return layouts;
+}
+
+// Start and end of an item's event for a layout. Window layouts fall back to the deadline block
+// when the item has no unlock_at before it closes.
+export function getEventSpan(item: any, layout: EventLayout): { start: Date; end: Date; layout: EventLayout } {
+  const due = new Date(item.due_at || item.assignment?.due_at);
+  const deadline = { start: due, end: new Date(due.getTime() + 60 * 60 * 1000), layout: 'deadline' as EventLayout };
+  if (layout === 'deadline' || !item.unlock_at) {
+    return deadline;
+  }
+
+  const opens = new Date(item.unlock_at);
+  const closes = new Date(item.lock_at || item.due_at || item.assignment?.due_at);
+  if (isNaN(opens.getTime()) || isNaN(closes.getTime()) || closes.getTime() <= opens.getTime()) {
+    return deadline;
+  }
+  return { start: opens, end: closes, layout };
+}
+
+// Popup minutes (before the event's start) for reminders meant `minutes` before the due time.
+// Calendar reminders only fire before an event starts, so on a window that opens after that
+// point the reminder fires when the window opens.
+export function getReminderOffsets(start: Date, due: Date, minutes: number[]): number[] {
+  const leadMinutes = Math.round((due.getTime() - start.getTime()) / (60 * 1000));
+  const offsets = minutes.map(value => Math.min(Math.max(value - leadMinutes, 0), MAX_REMINDER_MINUTES));
+  return [...new Set(offsets)];
+}
+
+// Time limit and allowed attempts lines for quiz descriptions (empty for other items)
+export function describeQuizDetails(item: any): string[] {
+  if (item.quiz_time_limit === undefined && item.quiz_allowed_attempts === undefined) {
+    return [];
+  }
+  const attempts = item.quiz_allowed_attempts;
+  return [
+    `Time limit: ${item.quiz_time_limit ? `${item.quiz_time_limit} minutes` : 'None'}`,
+    `Allowed attempts: ${attempts === -1 ? 'Unlimited' : (attempts ?? 1)}`,
+  ];
+}
+
+// Stable lookup key for a Canvas item, e.g. "quiz:123:456"
+export function getOriginKey(origin: CanvasOrigin): string {
+  return `${origin.itemType}:${origin.courseId}:${origin.assignmentId}`;
+}
+
+// Hash of the Canvas fields (plus the display timezone) that end up in the Google event.
+// If any of them change, the fingerprint changes and the event gets patched.
+export function computeFingerprint(fields: {
+  name: string;
+  dueAt: string;
+  pointsPossible: number | string | null | undefined;
+  htmlUrl: string | null | undefined;
+  timeZone: string;
+  // Anything else that changes how the event looks (e.g. submission status and policy)
+  variant?: string;
+}): string {
+  const payload = JSON.stringify([
+    fields.name,
+    fields.dueAt,
+    fields.pointsPossible ?? null,
+    fields.htmlUrl ?? null,
+    fields.timeZone,
+    fields.variant ?? null,
+  ]);
+  return createHash('sha256').update(payload).digest('hex').substring(0, 16);
+}
+
+// Build the extendedProperties block that tags an event with its Canvas origin
+export function buildOriginProperties(origin: CanvasOrigin, fingerprint: string) {
+  return {
+    private: {
+      [BRIDGE_MARKER_KEY]: 'true',
+      [COURSE_ID_KEY]: String(origin.courseId),
+      [ASSIGNMENT_ID_KEY]: String(origin.assignmentId),
+      [ITEM_TYPE_KEY]: origin.itemType,
+      [FINGERPRINT_KEY]: fingerprint,
+      // Cleared on every create/patch so an item that comes back loses its stale mark
+      [STALE_KEY]: 'false',
+    },
+  };
+}
+
+// Read the Canvas origin back from a Google event (null if it wasn't created by the bridge)
+export function readOrigin(event: any): CanvasOrigin | null {
+  const props = event?.extendedProperties?.private;
+  if (!props || props[BRIDGE_MARKER_KEY] !== 'true') {
+    return null;
+  }
+
+  const courseId = Number(props[COURSE_ID_KEY]);
+  const assignmentId = Number(props[ASSIGNMENT_ID_KEY]);
+  const itemType = props[ITEM_TYPE_KEY];
+
+  if (!Number.isFinite(courseId) || !Number.isFinite(assignmentId) || !itemType) {
+    return null;
+  }
+
+  return { courseId, assignmentId, itemType };
+}
+
+export function readFingerprint(event: any): string | undefined {
+  return event?.extendedProperties?.private?.[FINGERPRINT_KEY];
+}
+
+export function isMarkedStale(event: any): boolean {
+  return event?.extendedProperties?.private?.[STALE_KEY] === 'true';
+}
+
+// Patch that flags an orphaned event as removed from Canvas without deleting it
+export function buildStaleMarkUpdate(event: any) {
+  const summary: string = event?.summary || '';
+  return {
+    summary: summary.startsWith(STALE_PREFIX) ? summary : `${STALE_PREFIX} ${summary}`.trim(),
+    extendedProperties: {
+      private: {
+        [STALE_KEY]: 'true',
+      },
+    },
+  };
+}
+
+// Readable differences between a bridged event and the patch sync would send, for dry-run plans.
+// Times are compared as wall-clock times in `timeZone`, since Google returns them with an offset.
+export function describeEventChanges(existing: any, updates: any, timeZone: string): string[] {
+  const changes: string[] = [];
+  const quote = (value: unknown) => (value ? `"${value}"` : 'none');
+
+  if (updates.summary !== undefined && (existing.summary || '') !== updates.summary) {
+    changes.push(`title: ${quote(existing.summary)} -> ${quote(updates.summary)}`);
+  }
+  if (updates.description !== undefined && (existing.description || '') !== updates.description) {
+    changes.push('description changed');
+  }
+
+  const readTime = (time: any) => {
+    if (!time) return 'none';
+    if (time.date) return time.date;
+    if (!time.dateTime) return 'none';
+    // Offset-less times are already wall-clock times
+    if (!/(?:Z|[+-]\d{2}:?\d{2})$/i.test(time.dateTime)) return time.dateTime.substring(0, 19);
+    return convertToTimezone(time.dateTime, timeZone)?.datetime || time.dateTime;
+  };
+  for (const field of ['start', 'end'] as const) {
+    if (updates[field] !== undefined && readTime(existing[field]) !== readTime(updates[field])) {
+      changes.push(`${field}: ${readTime(existing[field])} -> ${readTime(updates[field])}`);
+    }
+  }
+
+  if (updates.location !== undefined && (existing.location || '') !== updates.location) {
+    changes.push(`location: ${quote(existing.location)} -> ${quote(updates.location)}`);
+  }
+  // Google leaves transparency out for busy events
+  if (updates.transparency !== undefined && (existing.transparency || 'opaque') !== updates.transparency) {
+    changes.push(`shown as: ${existing.transparency === 'transparent' ? 'free' : 'busy'} -> ${updates.transparency === 'transparent' ? 'free' : 'busy'}`);
+  }
+
+  const readReminders = (reminders: any) => {
+    if (!reminders) return 'none';
+    if (reminders.useDefault) return 'calendar default';
+    const minutes = (reminders.overrides || []).map((reminder: any) => reminder.minutes).sort((a: number, b: number) => b - a);
+    return minutes.length > 0 ? `${minutes.join(', ')} min before` : 'none';
+  };
+  if (updates.reminders !== undefined && readReminders(existing.reminders) !== readReminders(updates.reminders)) {
+    changes.push(`reminders: ${readReminders(existing.reminders)} -> ${readReminders(updates.reminders)}`);
+  }
+
+  // undefined leaves the color alone; null resets it to the calendar color
+  if (updates.colorId !== undefined && (existing.colorId ?? null) !== updates.colorId) {
+    changes.push(`color: ${existing.colorId ?? 'calendar default'} -> ${updates.colorId ?? 'calendar default'}`);
+  }
+  return changes;
+}
+
+// Per-course calendars are recognized by a marker in their description, so renaming
+// the calendar in Google doesn't make the bridge create a duplicate
+const COURSE_CALENDAR_MARKER = /\[canvas-course:(\d+)\]/;
+
+export function buildCourseCalendarDescription(courseId: number, courseName?: string): string {
+  const label = courseName ? `Canvas deadlines for ${courseName}` : 'Canvas deadlines';
+  return `${label} (managed by canvas-calendar-bridge) [canvas-course:${courseId}]`;
+}
+
+// Read the Canvas course ID back from a calendarList entry (null if it isn't a bridge course calendar)
+export function readCourseCalendarId(calendar: any): number | null {
+  const match = typeof calendar?.description === 'string' ? calendar.description.match(COURSE_CALENDAR_MARKER) : null;
+  return match ? Number(match[1]) : null;
+}
+
+// Study blocks (planned work sessions) carry their own marker, so sync never mistakes them for
+// deadline events and reconciliation leaves them alone
+export const STUDY_BLOCK_MARKER_KEY = 'canvasStudyBlock';
+
+export function buildStudyBlockProperties(origin: CanvasOrigin) {
+  return {
+    private: {
+      [STUDY_BLOCK_MARKER_KEY]: 'true',
+      [COURSE_ID_KEY]: String(origin.courseId),
+      [ASSIGNMENT_ID_KEY]: String(origin.assignmentId),
+      [ITEM_TYPE_KEY]: origin.itemType,
+    },
+  };
+}
+
+// Canvas course ID of a study block (null if the event isn't one)
+export function readStudyBlockCourseId(event: any): number | null {
+  const props = event?.extendedProperties?.private;
+  if (!props || props[STUDY_BLOCK_MARKER_KEY] !== 'true') {
+    return null;
+  }
+  const courseId = Number(props[COURSE_ID_KEY]);
+  return Number.isFinite(courseId) ? courseId : null;
+}
@@ -0,0 +1,139 @@
+// Timezone helpers for turning Canvas UTC timestamps into local wall-clock times
+
+import { createLogger } from './logger.js';
+
+const log = createLogger('timezone');
+
+// Used when neither config nor the Canvas profile provides a timezone
+export const FALLBACK_TIMEZONE = 'America/New_York';
+
+// Check that a string is an IANA timezone name the runtime understands (e.g. "America/Denver")
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Year/month/day/hour/minute/second of an instant as seen in the given timezone
+function getZonedParts(date: Date, timeZone: string) {
+  const formatted = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false
+  }).formatToParts(date);
+
+  const get = (type: string) => formatted.find(part => part.type === type)?.value || '00';
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    // Some runtimes render midnight as "24" with hour12: false
+    hour: get('hour') === '24' ? '00' : get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Convert a Canvas UTC date (e.g. "2025-11-07T06:59:00Z") into the given timezone.
+// Returns a Google Calendar-style local datetime ("YYYY-MM-DDTHH:mm:ss") plus a readable string.
+export function convertToTimezone(
+  utcDateString: string | null | undefined,
+  timeZone: string
+): { datetime: string; readable: string } | null {
+  // Handle null/undefined dates
+  if (!utcDateString) {
+    return null;
+  }
+
+  try {
+    const date = new Date(utcDateString);
+
+    // Check if date is valid
+    if (isNaN(date.getTime())) {
+      log.warn(`Invalid date: ${utcDateString}`);
+      return null;
+    }
+
+    const parts = getZonedParts(date, timeZone);
+    const datetime = `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}`;
+
+    // Also create a human-readable version, with the zone abbreviation (EST/EDT, PST/PDT, ...)
+    const readable = date.toLocaleString('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZoneName: 'short'
+    });
+
+    return { datetime, readable };
+  } catch (error) {
+    log.error(`Error converting date to ${timeZone} (input: ${utcDateString})`, error);
+    return null;
+  }
+}
+
+// Number of calendar days between two instants, counted in the given timezone.
+// An item due at 11:59 PM tomorrow is 1 day away, regardless of the current time of day.
+export function getZonedDayDifference(from: Date, to: Date, timeZone: string): number {
+  const fromParts = getZonedParts(from, timeZone);
+  const toParts = getZonedParts(to, timeZone);
+
+  const fromDay = Date.UTC(Number(fromParts.year), Number(fromParts.month) - 1, Number(fromParts.day));
+  const toDay = Date.UTC(Number(toParts.year), Number(toParts.month) - 1, Number(toParts.day));
+
+  return Math.round((toDay - fromDay) / (1000 * 60 * 60 * 24));
+}
+
+// UTC offset of the given timezone at an instant, in minutes (e.g. -300 for EST, -240 for EDT)
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const localAsUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+
+  // Drop milliseconds so the difference is a whole number of minutes
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((localAsUtc - instant) / (60 * 1000));
+}
+
+// Short zone name at an instant (e.g. "EST", "EDT", or "GMT+5:30" where no abbreviation exists)
+export function getTimeZoneAbbreviation(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value || timeZone;
+}
+
+// Instant for a wall-clock time ("YYYY-MM-DDTHH:mm:ss") in the given timezone.
+// Two passes of the offset lookup settle times near a DST change.
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const match = localDateTime.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) {
+    return new Date(NaN);
+  }
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  const asUtc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+
+  let guess = asUtc - getTimeZoneOffsetMinutes(new Date(asUtc), timeZone) * 60 * 1000;
+  guess = asUtc - getTimeZoneOffsetMinutes(new Date(guess), timeZone) * 60 * 1000;
+  return new Date(guess);
+}
@@ -0,0 +1,126 @@
+// Persistent storage for Google OAuth tokens, so authorizing once survives restarts without
+// copying the refresh token into the MCP config. The file is only readable by the current user
+// and can additionally be encrypted with a passphrase (AES-256-GCM, scrypt-derived key).
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { chmod, mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+const STORE_VERSION = 1;
+const APP_DIRECTORY = 'canvas-calendar-bridge';
+const TOKEN_FILE = 'google-tokens.json';
+
+export interface StoredTokens {
+  refreshToken: string;
+  accessToken: string | null;
+  // Epoch milliseconds; 0 when unknown
+  accessTokenExpiresAt: number;
+  scope?: string;
+  savedAt: string;
+}
+
+// Per-user config directory: %APPDATA% on Windows, ~/Library/Application Support on macOS,
+// $XDG_CONFIG_HOME (or ~/.config) elsewhere
+export function getConfigDirectory(): string {
+  if (process.platform === 'win32' && process.env.APPDATA) {
+    return path.join(process.env.APPDATA, APP_DIRECTORY);
+  }
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Application Support', APP_DIRECTORY);
+  }
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), APP_DIRECTORY);
+}
+
+export function getDefaultTokenStorePath(): string {
+  return path.join(getConfigDirectory(), TOKEN_FILE);
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+export class TokenStore {
+  private filePath: string;
+  private passphrase: string | null;
+
+  constructor(filePath?: string, passphrase?: string) {
+    this.filePath = filePath || getDefaultTokenStorePath();
+    this.passphrase = passphrase || null;
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  isEncrypted(): boolean {
+    return this.passphrase !== null;
+  }
+
+  // Stored tokens, or null when nothing has been saved yet
+  async load(): Promise<StoredTokens | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const file = JSON.parse(raw);
+    if (file.version !== STORE_VERSION) {
+      throw new Error(`Unsupported token store version ${file.version} in ${this.filePath}`);
+    }
+
+    if (!file.encrypted) {
+      return file.tokens as StoredTokens;
+    }
+
+    if (!this.passphrase) {
+      throw new Error(`Token store ${this.filePath} is encrypted. Set GOOGLE_TOKEN_PASSPHRASE to unlock it.`);
+    }
+
+    try {
+      const key = deriveKey(this.passphrase, Buffer.from(file.salt, 'base64'));
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      return JSON.parse(plaintext.toString('utf8')) as StoredTokens;
+    } catch {
+      throw new Error(`Could not decrypt token store ${this.filePath}. Check GOOGLE_TOKEN_PASSPHRASE.`);
+    }
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    let file: object;
+    if (this.passphrase) {
+      const salt = randomBytes(16);
+      const iv = randomBytes(12);
+      const cipher = createCipheriv('aes-256-gcm', deriveKey(this.passphrase, salt), iv);
+      const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()]);
+      file = {
+        version: STORE_VERSION,
+        encrypted: true,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      };
+    } else {
+      file = { version: STORE_VERSION, encrypted: false, tokens };
+    }
+
+    await mkdir(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+
+    // Write to a temp file and rename, so a crash never leaves a half-written store behind
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    // mode is only applied to new files; make sure a leftover temp file is locked down too
+    await chmod(tempPath, 0o600);
+    await rename(tempPath, this.filePath);
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.filePath, { force: true });
+  }
+}
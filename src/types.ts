@@ -10,22 +10,95 @@ export interface CanvasAssignment {
   html_url: string;
 }
 
+// Submission state of the current user for an assignment (all false when Canvas returns no submission,
+// e.g. for teachers or items that don't take submissions)
+export interface CanvasSubmissionStatus {
+  submitted: boolean;
+  graded: boolean;
+  late: boolean;
+  missing: boolean;
+  submission_state: string | null;
+  submitted_at: string | null;
+}
+
+// One set of dates of an assignment: the base dates ("Everyone") or an override for a section,
+// group or individual students
+export interface CanvasDateVariant {
+  title: string;
+  due_at: string | null;
+  unlock_at: string | null;
+  lock_at: string | null;
+  base: boolean;
+  // CourseSection, Group or ADHOC (individual students); null for the base dates
+  set_type: string | null;
+  set_id: number | null;
+}
+
 export interface CanvasCourse {
   id: number;
   name: string;
   course_code: string;
 }
 
+// Include/exclude filter for calls that walk the user's courses (matched against Canvas course IDs)
+export interface CourseFilter {
+  courseIds?: number[];
+  excludeCourseIds?: number[];
+}
+
+// A course whose items couldn't be fetched; reported alongside the results instead of failing the call
+export interface CourseFetchWarning {
+  courseId: number;
+  courseName: string;
+  error: string;
+}
+
+// Items from every course that loaded, the IDs of those courses, and a warning per course that didn't
+export interface UpcomingItemsResult {
+  items: any[];
+  loadedCourseIds: number[];
+  warnings: CourseFetchWarning[];
+  // Item types that couldn't be loaded at all (e.g. planner to-dos when the Planner API failed);
+  // events of these types must not be treated as removed from Canvas
+  skippedItemTypes: string[];
+}
+
+// Canvas object types that can be marked complete through planner overrides
+export type PlannableType =
+  | 'assignment'
+  | 'quiz'
+  | 'discussion_topic'
+  | 'wiki_page'
+  | 'planner_note'
+  | 'calendar_event'
+  | 'assessment_request';
+
+export interface PlannerNoteInput {
+  title: string;
+  details?: string;
+  // ISO 8601 date-time the note shows up on in the planner
+  todo_date: string;
+  course_id?: number;
+}
+
 export interface CalendarEvent {
+  id?: string;
   summary: string;
   description: string;
+  colorId?: string | null;
+  location?: string;
+  // transparent events don't count as busy time
+  transparency?: 'opaque' | 'transparent';
+  // Timed events use dateTime + timeZone; all-day events use date ("YYYY-MM-DD", end exclusive)
   start: {
-    dateTime: string;
-    timeZone: string;
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
   };
   end: {
-    dateTime: string;
-    timeZone: string;
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
   };
   reminders?: {
     useDefault: boolean;
@@ -34,4 +107,72 @@ export interface CalendarEvent {
       minutes: number;
     }>;
   };
+  extendedProperties?: {
+    private?: { [key: string]: string };
+    shared?: { [key: string]: string };
+  };
+}
+
+// Identifies the Canvas item a bridged Google Calendar event was created from
+export interface CanvasOrigin {
+  courseId: number;
+  assignmentId: number;
+  itemType: string;
+}
+
+// A busy period from a free/busy query (ISO timestamps)
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+// Busy periods per calendar ID; `error` is set for calendars that couldn't be queried
+export interface FreeBusyResult {
+  [calendarId: string]: { busy: BusyInterval[]; error?: string };
+}
+
+// One write in a CalendarProvider.batch() call
+export type BatchOperation =
+  | { kind: 'insert'; event: CalendarEvent; calendarId?: string }
+  | { kind: 'patch'; eventId: string; updates: Partial<CalendarEvent>; calendarId?: string }
+  | { kind: 'delete'; eventId: string; calendarId?: string };
+
+// Outcome of one batched write, in the same position as its operation
+export type BatchResult = { ok: true; data: any } | { ok: false; error: string };
+
+// What sync_to_calendar does (or, in a dry run, would do) with one Canvas item or bridged event
+export type SyncPlanAction = 'create' | 'update' | 'delete' | 'mark_stale' | 'unchanged' | 'skip';
+
+export interface SyncPlanEntry {
+  action: SyncPlanAction;
+  // Item name (or event label for stale events)
+  item: string;
+  reason: string;
+  calendarId?: string;
+  eventId?: string;
+  // Field-level differences for updates, e.g. 'title: "A" -> "B"'
+  changes?: string[];
+}
+
+// A calendar backend the tools and sync_to_calendar can write to.
+// Events use the Google Calendar event resource shape (summary, start/end, reminders,
+// extendedProperties, ...) regardless of backend; providers translate as needed.
+export interface CalendarProvider {
+  // Human-readable backend name for tool output, e.g. "Google Calendar"
+  readonly displayName: string;
+  getDefaultCalendarId(): string;
+  createEvent(event: CalendarEvent, calendarId?: string): Promise<any>;
+  // Events between two times in start order; every one of them when maxResults is omitted
+  listEvents(timeMin: string, timeMax: string, maxResults?: number, calendarId?: string): Promise<{ items: any[] }>;
+  // Events whose private extended property `markerKey` is "true" (default: the bridge marker)
+  listBridgedEvents(timeMin?: string, timeMax?: string, calendarId?: string, markerKey?: string): Promise<any[]>;
+  getEvent(eventId: string, calendarId?: string): Promise<any>;
+  updateEvent(eventId: string, updates: Partial<CalendarEvent>, calendarId?: string): Promise<any>;
+  deleteEvent(eventId: string, calendarId?: string): Promise<{ success: boolean; message: string }>;
+  listCalendars(): Promise<any[]>;
+  getFreeBusy(timeMin: string, timeMax: string, calendarIds: string[]): Promise<FreeBusyResult>;
+  createCalendar(summary: string, description?: string, timeZone?: string): Promise<any>;
+  // Run many writes at once where the backend supports it. Never throws for a single failed
+  // operation; each one gets its own result.
+  batch(operations: BatchOperation[]): Promise<BatchResult[]>;
 }